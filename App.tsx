@@ -1,17 +1,19 @@
 
-import React, { useState, useEffect } from 'react';
-import { ExcelDataRow, AnalysisResult, AppState, Language, AnalysisGroup, AnalysisTemplate } from './types';
-import { parseMultipleExcelFiles } from './services/excelService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ExcelDataRow, AnalysisResult, AppState, Language, AnalysisGroup, AnalysisTemplate, WorkbookModel, SheetSelection, SchemaMergePlan, ParseProgress, ColumnTypeOverrides } from './types';
+import { parseMultipleExcelFiles, inspectExcelFile, releaseParsedWorkbooks, getDefaultSelections, getSelectedHeaders, proposeSchemaMerge, hasSchemaConflicts } from './services/excelService';
 import { analyzeDataWithGemini } from './services/geminiService';
 import { configService } from './services/configService';
 import { fileSystemService } from './services/fileSystemService';
-import { cleanAndEnrichData } from './utils';
 import FileUpload from './components/FileUpload';
 import Dashboard from './components/Dashboard';
 import ChatBot from './components/ChatBot';
 import ConfigManager from './components/ConfigManager';
-import { Bot, AlertCircle, Globe, Settings, FileSpreadsheet, Play, X, Layers, MessageSquare, Database, AlertTriangle } from 'lucide-react';
+import SheetPicker from './components/SheetPicker';
+import SchemaMergePanel from './components/SchemaMergePanel';
+import { Bot, AlertCircle, Globe, Settings, FileSpreadsheet, Play, X, Layers, MessageSquare, Database, AlertTriangle, Loader2 } from 'lucide-react';
 import { translations } from './i18n';
+import { getDetailRows, getDataColumns, getSchemaFingerprint } from './utils';
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
@@ -34,6 +36,39 @@ const App: React.FC = () => {
   // Staging Area
   const [stagedFiles, setStagedFiles] = useState<File[]>([]);
   const [selectedContextId, setSelectedContextId] = useState(''); // GroupID or TemplateID
+  const [workbookModels, setWorkbookModels] = useState<WorkbookModel[]>([]);
+  const [sheetSelections, setSheetSelections] = useState<SheetSelection[][]>([]);
+  const [isInspecting, setIsInspecting] = useState(false);
+  const [mergePlan, setMergePlan] = useState<SchemaMergePlan | null>(null);
+  const [isMergeConfirmed, setIsMergeConfirmed] = useState(false);
+  // Bumped on every drop or clear, so inspections of an older batch are ignored when they finish
+  const inspectTokenRef = useRef(0);
+
+  // Background Parsing
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+  const parseAbortRef = useRef<AbortController | null>(null);
+
+  // Data rows of the selected sheets in each staged file, as counted when the workbooks were inspected
+  const selectedRowCounts = useMemo(() => sheetSelections.map((selections, i) =>
+    selections.reduce((sum, s) => sum + (workbookModels[i]?.sheets.find(sheet => sheet.name === s.sheetName)?.rowCount || 0), 0)
+  ), [sheetSelections, workbookModels]);
+
+  // Rows parsed so far, plus the rows of the files already finished, against all selected rows
+  const parsePercent = useMemo(() => {
+    if (!parseProgress) return 0;
+    const totalRows = selectedRowCounts.reduce((sum, count) => sum + count, 0);
+    if (totalRows === 0) return (parseProgress.fileIndex / parseProgress.fileCount) * 100;
+    const finishedRows = selectedRowCounts.slice(0, parseProgress.fileIndex).reduce((sum, count) => sum + count, 0);
+    return Math.min(100, ((finishedRows + parseProgress.rowsParsed) / totalRows) * 100);
+  }, [parseProgress, selectedRowCounts]);
+
+  // Subtotal/total rows found in the data are left out of charts and AI analysis unless opted back in
+  const [includeSummaryRows, setIncludeSummaryRows] = useState(false);
+  const analysisData = useMemo(() => getDetailRows(data, includeSummaryRows), [data, includeSummaryRows]);
+
+  // Column type overrides are remembered per schema, so re-uploading the same export restores them
+  const [columnTypes, setColumnTypes] = useState<ColumnTypeOverrides>({});
+  const schemaFingerprint = useMemo(() => getSchemaFingerprint(getDataColumns(data)), [data]);
 
   const [availableGroups, setAvailableGroups] = useState<AnalysisGroup[]>([]);
   const [availableTemplates, setAvailableTemplates] = useState<AnalysisTemplate[]>([]);
@@ -42,6 +77,17 @@ const App: React.FC = () => {
     document.title = t.appTitle;
   }, [language, t]);
 
+  // Re-propose the merged schema whenever the staged sheets change
+  useEffect(() => {
+    setIsMergeConfirmed(false);
+    if (workbookModels.length < 2 || sheetSelections.length !== workbookModels.length) {
+      setMergePlan(null);
+      return;
+    }
+    const fileHeaders = workbookModels.map((model, i) => getSelectedHeaders(model, sheetSelections[i]));
+    setMergePlan(proposeSchemaMerge(workbookModels.map(m => m.fileName), fileHeaders));
+  }, [workbookModels, sheetSelections]);
+
   // Initial Load and Auto-Restore Logic
   useEffect(() => {
     const initApp = async () => {
@@ -125,7 +171,7 @@ const App: React.FC = () => {
         setIsRefreshing(true);
         try {
           const activeTemplates = getActiveTemplates();
-          const newAnalysis = await analyzeDataWithGemini(data, language, undefined, undefined, undefined, activeTemplates);
+          const newAnalysis = await analyzeDataWithGemini(analysisData, language, undefined, undefined, undefined, activeTemplates, columnTypes);
           setAnalysis(newAnalysis);
           setLastUpdated(Date.now());
         } catch (error) {
@@ -138,8 +184,11 @@ const App: React.FC = () => {
     updateAnalysisForLanguage();
   }, [language]); 
 
-  const handleFilesDropped = (files: File[]) => {
+  const handleFilesDropped = async (files: File[]) => {
+      const token = ++inspectTokenRef.current;
       setStagedFiles(files);
+      setWorkbookModels([]);
+      setSheetSelections([]);
       
       // Smart Default Selection
       if (files.length === 1 && availableTemplates.length > 0) {
@@ -151,14 +200,48 @@ const App: React.FC = () => {
       }
       
       setErrorMessage('');
+
+      // Inspect every workbook so the user can pick sheets before analysis
+      setIsInspecting(true);
+      try {
+          const models = await Promise.all(files.map(file => inspectExcelFile(file)));
+          if (token !== inspectTokenRef.current) return;
+          setWorkbookModels(models);
+          setSheetSelections(models.map(getDefaultSelections));
+      } catch (error: any) {
+          if (token !== inspectTokenRef.current) return;
+          console.error(error);
+          setStagedFiles([]);
+          setAppState(AppState.ERROR);
+          setErrorMessage(error.message || t.unknownError);
+      } finally {
+          if (token === inspectTokenRef.current) setIsInspecting(false);
+      }
   };
 
   const handleClearStaged = () => {
+      inspectTokenRef.current++;
+      setIsInspecting(false);
+      releaseParsedWorkbooks();
       setStagedFiles([]);
+      setWorkbookModels([]);
+      setSheetSelections([]);
       setSelectedContextId('');
       setErrorMessage('');
   };
 
+  const handleSheetSelectionChange = (fileIndex: number, selections: SheetSelection[]) => {
+      setSheetSelections(prev => prev.map((s, i) => i === fileIndex ? selections : s));
+  };
+
+  const hasSheetSelection = sheetSelections.length === stagedFiles.length && sheetSelections.every(s => s.length > 0);
+  const needsMergeConfirmation = !!mergePlan && hasSchemaConflicts(mergePlan) && !isMergeConfirmed;
+
+  const handleMergePlanChange = (plan: SchemaMergePlan) => {
+      setMergePlan(plan);
+      setIsMergeConfirmed(false);
+  };
+
   const handleStartAnalysis = async () => {
     try {
       setAppState(AppState.PARSING);
@@ -174,40 +257,69 @@ const App: React.FC = () => {
           await fileSystemService.saveExcelFile(file);
       }
 
-      const parsedData = await parseMultipleExcelFiles(files);
-      // Clean Data immediately
-      const cleanedData = cleanAndEnrichData(parsedData);
+      // Parsing and cleaning run in a worker so large exports don't freeze the page
+      const controller = new AbortController();
+      parseAbortRef.current = controller;
+      setParseProgress(null);
+      const cleanedData = await parseMultipleExcelFiles(files, sheetSelections, mergePlan || undefined, {
+          onProgress: setParseProgress,
+          signal: controller.signal,
+      });
+      parseAbortRef.current = null;
       
       setData(cleanedData);
+      const savedColumnTypes = configService.getColumnTypes(getSchemaFingerprint(getDataColumns(cleanedData)));
+      setColumnTypes(savedColumnTypes);
       
       setAppState(AppState.ANALYZING);
 
       const activeTemplates = getActiveTemplates();
 
-      const aiResult = await analyzeDataWithGemini(cleanedData, language, undefined, undefined, undefined, activeTemplates);
+      const aiResult = await analyzeDataWithGemini(getDetailRows(cleanedData, includeSummaryRows), language, undefined, undefined, undefined, activeTemplates, savedColumnTypes);
       
       setAnalysis(aiResult);
       setLastUpdated(Date.now());
       setAppState(AppState.SUCCESS);
 
     } catch (error: any) {
+      parseAbortRef.current = null;
+      if (error?.name === 'AbortError') {
+          // Cancelled by the user: back to the staged files, not an error
+          setAppState(AppState.IDLE);
+          return;
+      }
       console.error(error);
       setAppState(AppState.ERROR);
       setErrorMessage(error.message || t.unknownError);
     }
   };
 
+  const handleCancelParsing = () => {
+      parseAbortRef.current?.abort();
+  };
+
   const handleReset = () => {
+    inspectTokenRef.current++;
+    setIsInspecting(false);
+    releaseParsedWorkbooks();
     setAppState(AppState.IDLE);
     setData([]);
+    setColumnTypes({});
     setAnalysis(null);
     setFileName('');
     setErrorMessage('');
     setIsRefreshing(false);
     setStagedFiles([]);
+    setWorkbookModels([]);
+    setSheetSelections([]);
     setSelectedContextId('');
   };
 
+  const handleColumnTypesChange = (next: ColumnTypeOverrides) => {
+    setColumnTypes(next);
+    configService.saveColumnTypes(schemaFingerprint, next);
+  };
+
   const handleAnalysisUpdate = (newAnalysis: AnalysisResult) => {
     setAnalysis(newAnalysis);
     setLastUpdated(Date.now());
@@ -218,7 +330,7 @@ const App: React.FC = () => {
     setIsRefreshing(true);
     try {
       const activeTemplates = getActiveTemplates();
-      const newAnalysis = await analyzeDataWithGemini(data, language, undefined, undefined, undefined, activeTemplates);
+      const newAnalysis = await analyzeDataWithGemini(analysisData, language, undefined, undefined, undefined, activeTemplates, columnTypes);
       setAnalysis(newAnalysis);
       setLastUpdated(Date.now());
     } catch (error) {
@@ -331,15 +443,41 @@ const App: React.FC = () => {
                     </div>
 
                     <div className="space-y-6">
-                        {/* File List Summary */}
-                        <div className="bg-gray-50 rounded-lg p-3 text-sm text-gray-600 max-h-32 overflow-y-auto">
-                            {stagedFiles.map((f, i) => (
-                                <div key={i} className="flex items-center gap-2 py-1">
-                                    <span className="w-1.5 h-1.5 rounded-full bg-blue-400"></span>
-                                    {f.name}
+                        {/* Sheet Picker per File */}
+                        {isInspecting ? (
+                            <div className="bg-gray-50 rounded-lg p-3 text-sm text-gray-500 flex items-center gap-2">
+                                <Loader2 className="w-4 h-4 animate-spin" /> {t.inspectingFiles}
+                            </div>
+                        ) : (
+                            <div>
+                                <label className="block text-sm font-bold text-gray-700 mb-2">{t.selectSheets}</label>
+                                <div className="space-y-3 max-h-80 overflow-y-auto">
+                                    {workbookModels.map((model, i) => (
+                                        <SheetPicker
+                                            key={`${model.fileName}-${i}`}
+                                            model={model}
+                                            selections={sheetSelections[i] || []}
+                                            onChange={(selections) => handleSheetSelectionChange(i, selections)}
+                                            language={language}
+                                        />
+                                    ))}
                                 </div>
-                            ))}
-                        </div>
+                                {!hasSheetSelection && (
+                                    <p className="mt-2 text-xs text-red-500 flex items-center gap-1"><AlertCircle className="w-3 h-3" />{t.noSheetSelected}</p>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Schema Merge (Multi File) */}
+                        {!isInspecting && mergePlan && (
+                            <SchemaMergePanel
+                                plan={mergePlan}
+                                isConfirmed={isMergeConfirmed}
+                                onChange={handleMergePlanChange}
+                                onConfirm={() => setIsMergeConfirmed(true)}
+                                language={language}
+                            />
+                        )}
 
                         {/* Context Selector */}
                         <div>
@@ -385,7 +523,9 @@ const App: React.FC = () => {
                             </button>
                             <button 
                                 onClick={handleStartAnalysis}
-                                className={`flex-[2] px-4 py-3 text-white rounded-xl font-bold shadow-lg flex items-center justify-center gap-2 transition-all ${
+                                disabled={isInspecting || !hasSheetSelection || needsMergeConfirmation}
+                                title={needsMergeConfirmation ? t.schemaNotConfirmed : undefined}
+                                className={`flex-[2] px-4 py-3 text-white rounded-xl font-bold shadow-lg flex items-center justify-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
                                     stagedFiles.length > 1 ? 'bg-purple-600 hover:bg-purple-700 shadow-purple-200' : 'bg-blue-600 hover:bg-blue-700 shadow-blue-200'
                                 }`}
                             >
@@ -404,7 +544,28 @@ const App: React.FC = () => {
                    <span className={appState === AppState.PARSING ? 'font-bold text-blue-700' : 'text-gray-500'}>
                      {t.stepParsing}
                    </span>
+                   {appState === AppState.PARSING && (
+                     <button
+                       onClick={handleCancelParsing}
+                       className="ml-auto text-xs text-gray-500 hover:text-red-600 border border-gray-300 hover:border-red-300 rounded px-2 py-0.5 transition-colors"
+                     >
+                       {t.cancel}
+                     </button>
+                   )}
                  </div>
+                 {appState === AppState.PARSING && parseProgress && (
+                   <div className="pl-6 space-y-1">
+                     <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                       <div
+                         className="h-full bg-blue-500 transition-all"
+                         style={{ width: `${Math.round(parsePercent)}%` }}
+                       />
+                     </div>
+                     <p className="text-xs text-gray-500 truncate">
+                       {parseProgress.fileName} · {parseProgress.sheetName} · {parseProgress.rowsParsed.toLocaleString()} {t.rowsLabel}
+                     </p>
+                   </div>
+                 )}
                  <div className="flex items-center gap-3">
                    <div className={`w-3 h-3 rounded-full ${appState === AppState.ANALYZING ? 'bg-blue-500 animate-pulse' : 'bg-gray-300'}`} />
                    <span className={appState === AppState.ANALYZING ? 'font-bold text-blue-700' : 'text-gray-500'}>
@@ -427,11 +588,18 @@ const App: React.FC = () => {
               isRefreshing={isRefreshing}
               lastUpdated={lastUpdated}
               language={language}
+              includeSummaryRows={includeSummaryRows}
+              onIncludeSummaryRowsChange={setIncludeSummaryRows}
+              columnTypes={columnTypes}
+              onColumnTypesChange={handleColumnTypesChange}
+              onAnalysisChange={setAnalysis}
+              schemaFingerprint={schemaFingerprint}
             />
             <ChatBot 
-              data={data} 
+              data={analysisData} 
               onAnalysisUpdate={handleAnalysisUpdate} 
               language={language}
+              columnTypes={columnTypes}
             />
           </>
         )}
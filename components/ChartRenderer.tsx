@@ -2,39 +2,67 @@
 import React, { useMemo, useState, useRef, useEffect } from 'react';
 import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
-  LineChart, Line, AreaChart, Area, PieChart, Pie, Cell,
+  LineChart, Line, AreaChart, Area, PieChart, Pie, Cell, ComposedChart,
   ScatterChart, Scatter,
   RadarChart, Radar, PolarGrid, PolarAngleAxis, PolarRadiusAxis,
   LabelList
 } from 'recharts';
 import { 
   Palette, 
-  BarChart3, LineChart as LineChartIcon, PieChart as PieChartIcon, Activity, Radar as RadarIcon, MousePointer2,
-  Minus, Plus, ImageDown, Loader2, MoveVertical, GripHorizontal
+  BarChart3, LineChart as LineChartIcon, PieChart as PieChartIcon, Activity, Radar as RadarIcon, MousePointer2, ChartNoAxesCombined,
+  ChartColumnDecreasing, ChartColumnStacked, ChartColumn, Grid3x3,
+  Minus, Plus, X, ImageDown, Loader2, MoveVertical, GripHorizontal, Sigma, Layers
 } from 'lucide-react';
-import { ChartConfig, ExcelDataRow, Language } from '../types';
-import { aggregateData, PALETTES, formatNumber, formatCompactNumber, exportToImage } from '../utils';
+import { ChartConfig, DrillDownFilter, ExcelDataRow, Language, ColumnTypeOverrides, AggregationType, TimeGrain } from '../types';
+import { aggregateData, inferAggregation, isDateAxis, getChartSeries, buildParetoData, buildWaterfallData, buildHistogramData, buildHeatmapData, CHART_FIELDS, WaterfallStep, getDataColumns, detectColumnType, DEFAULT_CHART_LIMIT, PALETTES, formatNumber, formatCompactNumber, exportToImage, getColumnLabel } from '../utils';
 import { translations } from '../i18n';
+import HeatmapChart from './HeatmapChart';
 
 interface ChartRendererProps {
   config: ChartConfig;
   data: ExcelDataRow[];
   index: number;
-  onDataClick?: (column: string, value: string) => void;
+  onDataClick?: (filters: DrillDownFilter[]) => void;
   language: Language;
-  drillDown?: { column: string; value: string } | null;
+  drillPath?: DrillDownFilter[];
   onClearDrillDown?: () => void;
+  columnTypes?: ColumnTypeOverrides;
+  onConfigChange?: (config: ChartConfig) => void;
 }
 
-const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDataClick, language, drillDown, onClearDrillDown }) => {
+// Per-chart limit choices; 0 shows every category
+const CHART_LIMIT_OPTIONS = [5, 10, 12, 20, 50, 0];
+
+// Chart types that can show several series
+const SERIES_CHART_TYPES: ChartConfig['type'][] = ['bar', 'line', 'area', 'combo'];
+
+const WATERFALL_COLORS: Record<WaterfallStep, string> = {
+  start: '#3b82f6',
+  increase: '#10b981',
+  decrease: '#ef4444',
+  end: '#6366f1',
+};
+
+const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDataClick, language, drillPath = [], onClearDrillDown, columnTypes, onConfigChange }) => {
   const [currentPalette, setCurrentPalette] = useState<keyof typeof PALETTES>('default');
-  const [currentType, setCurrentType] = useState<ChartConfig['type']>(config.type);
   const [showLabels, setShowLabels] = useState(false);
   const [showGrid, setShowGrid] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
+  // Optional X-axis override, e.g. to compare merged files by their source
+  const [dimension, setDimension] = useState('');
+  // Drill hierarchy: the X-axis is the first level the drill path hasn't filtered yet
+  const hierarchy = config.drillHierarchy || [];
+  const drillLevel = hierarchy.findIndex(column => !drillPath.some(filter => filter.column === column));
+  const hierarchyKey = hierarchy.length > 0 ? hierarchy[drillLevel === -1 ? hierarchy.length - 1 : drillLevel] : '';
+  const xAxisKey = dimension || hierarchyKey || config.xAxisKey;
+  const sourceDimensions = (['__sourceFile', '__sourceSheet'] as const).filter(key => data.length > 0 && data[0][key] !== undefined);
+  // Charts from older analyses have no aggregation; fall back to the inferred one
+  const aggregation = config.aggregation || inferAggregation(data, config.dataKey, columnTypes);
+  const limit = config.limit ?? DEFAULT_CHART_LIMIT;
+  const isTimeAxis = useMemo(() => isDateAxis(data, xAxisKey, columnTypes), [data, xAxisKey, columnTypes]);
   
   // Menu States
-  const [activeMenu, setActiveMenu] = useState<'none' | 'type' | 'palette' | 'layout'>('none');
+  const [activeMenu, setActiveMenu] = useState<'none' | 'type' | 'aggregation' | 'series' | 'palette' | 'layout'>('none');
   
   // Font size state
   const [xAxisFontSize, setXAxisFontSize] = useState(11);
@@ -48,6 +76,48 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
 
   const menuRef = useRef<HTMLDivElement>(null);
   const t = translations[language];
+  const othersLabel = config.showOthers && !isTimeAxis ? t.othersBucket : undefined;
+
+  // Multi-series: one series per split-by value or per measure; empty for single-series charts
+  const series = useMemo(() => !SERIES_CHART_TYPES.includes(config.type) ? [] : getChartSeries(data, config.dataKey, {
+    measures: config.measures,
+    seriesKey: config.seriesKey,
+    aggregation: config.aggregation,
+    secondaryKey: config.type === 'combo' ? config.secondaryKey : undefined,
+    secondaryAggregation: config.secondaryAggregation,
+    columnTypes,
+    othersLabel: config.showOthers ? t.othersBucket : undefined,
+  }), [data, config.dataKey, config.measures, config.seriesKey, config.aggregation, config.type, config.secondaryKey, config.secondaryAggregation, config.showOthers, columnTypes, t]);
+  const [hiddenSeries, setHiddenSeries] = useState<string[]>([]);
+  const toggleSeries = (key: string) => {
+    setHiddenSeries(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  // Candidate columns for the series menu
+  const seriesColumns = useMemo(() => {
+    const sample = data.slice(0, 50);
+    const columns = getDataColumns(data).map(column => ({ column, type: detectColumnType(sample, column, columnTypes) }));
+    return {
+      splitBy: columns.filter(c => c.type === 'string' && c.column !== xAxisKey).map(c => c.column),
+      measures: columns.filter(c => c.type === 'number' && c.column !== config.dataKey).map(c => c.column),
+      heatmapRows: columns.filter(c => c.type !== 'number' && c.column !== xAxisKey).map(c => c.column),
+      drillLevels: columns.filter(c => c.type !== 'number').map(c => c.column),
+    };
+  }, [data, xAxisKey, config.dataKey, columnTypes]);
+
+  const addDrillLevel = (column: string) => {
+    onConfigChange?.({ ...config, drillHierarchy: [...(hierarchy.length > 0 ? hierarchy : [config.xAxisKey]), column] });
+  };
+
+  const removeDrillLevel = (column: string) => {
+    const next = hierarchy.filter(c => c !== column);
+    onConfigChange?.({ ...config, drillHierarchy: next.length > 1 ? next : undefined });
+  };
+
+  const toggleMeasure = (column: string) => {
+    const measures = config.measures || [];
+    onConfigChange?.({ ...config, measures: measures.includes(column) ? measures.filter(m => m !== column) : [...measures, column] });
+  };
 
   // Close menus when clicking outside
   useEffect(() => {
@@ -98,36 +168,71 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
   };
 
   const chartData = useMemo(() => {
-    const aggregated = aggregateData(data, config.xAxisKey, config.dataKey);
+    const options = {
+      columnTypes,
+      aggregation,
+      limit,
+      othersLabel,
+      allPeriods: config.showAllPeriods,
+      timeGrain: config.timeGrain,
+      fiscalYearStart: config.fiscalYearStart,
+    };
+    if (config.type === 'histogram') return buildHistogramData(data, config.dataKey);
+    if (config.type === 'waterfall') return buildWaterfallData(data, xAxisKey, config.dataKey, t.waterfallEnd, options);
+
+    const aggregated = aggregateData(data, xAxisKey, config.dataKey, { ...options, series, seriesKey: config.seriesKey });
+    if (config.type === 'pareto') return buildParetoData(aggregated, othersLabel);
+
     const isDateKey = aggregated.every(item => {
-      const key = String(item[config.xAxisKey]);
+      const key = String(item[xAxisKey]);
       return /^(19|20)\d{2}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])$/.test(key) || /^(19|20)\d{2}(0[1-9]|1[0-2])$/.test(key);
     });
 
     if (isDateKey) {
        return aggregated.sort((a, b) => {
-         const keyA = String(a[config.xAxisKey]);
-         const keyB = String(b[config.xAxisKey]);
+         const keyA = String(a[xAxisKey]);
+         const keyB = String(b[xAxisKey]);
          return keyA.localeCompare(keyB);
        });
     }
 
     return aggregated;
-  }, [data, config.xAxisKey, config.dataKey]);
+  }, [data, xAxisKey, config.dataKey, columnTypes, aggregation, limit, othersLabel, config.showAllPeriods, config.timeGrain, config.fiscalYearStart, series, config.seriesKey, config.type, t]);
+
+  const heatmap = useMemo(() => config.type !== 'heatmap' || !config.yAxisKey ? null : buildHeatmapData(data, xAxisKey, config.yAxisKey, config.dataKey, {
+    columnTypes,
+    aggregation,
+    limit,
+    allPeriods: config.showAllPeriods,
+    timeGrain: config.timeGrain,
+    fiscalYearStart: config.fiscalYearStart,
+  }), [config.type, data, xAxisKey, config.yAxisKey, config.dataKey, columnTypes, aggregation, limit, config.showAllPeriods, config.timeGrain, config.fiscalYearStart]);
 
   const colors = useMemo(() => PALETTES[currentPalette], [currentPalette]);
 
   const handleChartClick = (data: any) => {
     if (onDataClick && data) {
-      const activeLabel = data.activeLabel || data.name || data.payload?.[config.xAxisKey];
+      const activeLabel = data.activeLabel || data.name || data.payload?.[xAxisKey];
+      // "Others" and time periods are rollups, not values that can be filtered on
+      if (othersLabel && activeLabel === othersLabel) return;
+      if (isTimeAxis && config.timeGrain) return;
+      // Histogram bins and the waterfall's end bar aren't values either
+      if (config.type === 'histogram' || (config.type === 'waterfall' && activeLabel === t.waterfallEnd)) return;
       if (activeLabel) {
-        onDataClick(config.xAxisKey, String(activeLabel));
-      } else if (data.payload && data.payload[config.xAxisKey]) {
-         onDataClick(config.xAxisKey, String(data.payload[config.xAxisKey]));
+        onDataClick([{ column: xAxisKey, value: String(activeLabel) }]);
+      } else if (data.payload && data.payload[xAxisKey]) {
+         onDataClick([{ column: xAxisKey, value: String(data.payload[xAxisKey]) }]);
       }
     }
   };
 
+  // A cell filters on both of its values; a time period only on the row
+  const handleHeatmapClick = (xValue: string, yValue: string) => {
+    if (!onDataClick || !config.yAxisKey) return;
+    const rowFilter = { column: config.yAxisKey, value: yValue };
+    onDataClick(isTimeAxis && config.timeGrain ? [rowFilter] : [{ column: xAxisKey, value: xValue }, rowFilter]);
+  };
+
   const handleExport = async () => {
     setIsExporting(true);
     try {
@@ -151,16 +256,13 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
   };
 
   // --- Logic for Tooltip Labeling and Formatting ---
-  const isPercentageColumn = (key: string) => {
+  const isPercentageColumn = (key: string, keyAggregation: AggregationType = aggregation) => {
+    if (keyAggregation === 'count' || keyAggregation === 'countDistinct') return false;
+    if (columnTypes?.[key] === 'percent') return true;
     const k = key.toLowerCase();
     return k.includes('rate') || k.includes('percent') || k.includes('avg') || k.includes('yield') || k.includes('率') || k.includes('比') || k.includes('達成');
   };
 
-  const isCountColumn = (key: string) => {
-    const k = key.toLowerCase();
-    return k.includes('id') || k.includes('no') || k.includes('code') || k.includes('號') || k.includes('單') || k.includes('代碼');
-  };
-
   // Custom Tooltip Component
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -168,18 +270,38 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
         <div className="bg-white/95 backdrop-blur-sm p-3 border border-gray-100 shadow-xl rounded-xl text-sm min-w-[150px]">
           <p className="font-bold text-gray-800 mb-2 border-b border-gray-100 pb-1">{label}</p>
           {payload.map((entry: any, i: number) => {
+            // Pareto shares are always percentages
+            if (entry.dataKey === CHART_FIELDS.cumulative) {
+              return (
+                <div key={i} className="flex items-center justify-between gap-4 text-gray-600">
+                   <div className="flex items-center gap-2">
+                     <div className="w-2 h-2 rounded-full" style={{ backgroundColor: entry.color }} />
+                     <span>{t.cumulativePercent}</span>
+                   </div>
+                   <span className="font-mono font-bold text-gray-900">{`${(Number(entry.value) * 100).toFixed(1)}%`}</span>
+                </div>
+              );
+            }
+
+            // Series carry their own column and aggregation (e.g. the rate line of a combo chart)
+            const entrySeries = series.find(s => s.key === entry.dataKey);
+            const column = entrySeries?.measure || config.dataKey;
+            const entryAggregation = entry.dataKey === CHART_FIELDS.count ? 'count' : entrySeries?.aggregation || aggregation;
+            // Waterfall bars are drawn by size; the tooltip shows the signed step
+            const entryValue = entry.dataKey === CHART_FIELDS.delta ? entry.payload.value : entry.value;
+
             // Determine Label
             let displayName = entry.name || config.dataKey;
-            // If it's a count column (like 'Order No'), visually append (Count) or (數量)
-            if (isCountColumn(displayName)) {
-                displayName = language === 'zh-TW' ? `${displayName} (數量)` : `${displayName} (Count)`;
+            // Anything other than a plain sum is named, e.g. "Order No (Count)"
+            if (entryAggregation !== 'sum') {
+                displayName = `${displayName} (${t.aggregations[entryAggregation]})`;
             }
 
             // Determine Value Format
-            let displayValue = formatNumber(entry.value);
+            let displayValue = formatNumber(entryValue);
             // If it's a percentage column, format as %
-            if (isPercentageColumn(config.dataKey)) {
-                const num = Number(entry.value);
+            if (isPercentageColumn(column, entryAggregation)) {
+                const num = Number(entryValue);
                 if (!isNaN(num)) {
                     displayValue = `${(num * 100).toFixed(2)}%`;
                 }
@@ -209,7 +331,7 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
     const axisHeight = Math.max(50, marginBottom);
 
     const XAxisProps = {
-      dataKey: config.xAxisKey,
+      dataKey: xAxisKey,
       tick: { fontSize: xAxisFontSize, fill: '#64748b' },
       interval: (isExpanded ? 0 : 'preserveStartEnd') as 'preserveStartEnd' | 0,
       angle: -45,
@@ -240,14 +362,16 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
       onClick: isExpanded ? undefined : handleChartClick,
     };
 
+    const axisFormatterFor = (column: string, columnAggregation?: AggregationType) => (val: any) => {
+       // Percentage Axis Scaling
+       if (isPercentageColumn(column, columnAggregation)) {
+           return `${(Number(val) * 100).toFixed(0)}%`;
+       }
+       return formatCompactNumber(val);
+    };
+
     const YAxisProps = {
-       tickFormatter: (val: any) => {
-           // Percentage Axis Scaling
-           if (isPercentageColumn(config.dataKey)) {
-               return `${(Number(val) * 100).toFixed(0)}%`;
-           }
-           return formatCompactNumber(val);
-       },
+       tickFormatter: axisFormatterFor(config.dataKey),
        tick: { fontSize: 11, fill: '#64748b' },
        width: 45,
        axisLine: false,
@@ -261,17 +385,18 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
       opacity: 0.6
     };
 
-    const LabelProps = {
+    const labelPropsFor = (column: string, columnAggregation?: AggregationType) => ({
       position: "top" as const, 
       offset: 10, 
       formatter: (val: any) => {
-           if (isPercentageColumn(config.dataKey)) {
+           if (isPercentageColumn(column, columnAggregation)) {
                return `${(Number(val) * 100).toFixed(1)}%`;
            }
            return formatCompactNumber(val);
       }, 
       style: { fontSize: 10, fill: '#64748b' }
-    };
+    });
+    const LabelProps = labelPropsFor(config.dataKey);
 
     // Gradient Definitions for visual pop (Used for Area Chart)
     const Gradients = (
@@ -289,7 +414,15 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
       </defs>
     );
 
-    switch (currentType) {
+    // Clicking a legend entry hides or shows that series
+    const SeriesLegend = (
+      <Legend
+        wrapperStyle={{ fontSize: '11px', paddingTop: '5px', cursor: 'pointer' }}
+        onClick={(entry: any) => toggleSeries(String(entry.dataKey))}
+      />
+    );
+
+    switch (config.type) {
       case 'bar':
         return (
           <BarChart key={isExpanded ? 'exp-bar' : 'bar'} {...commonProps}>
@@ -299,6 +432,26 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
             <XAxis {...XAxisProps} />
             <YAxis {...YAxisProps} />
             <Tooltip content={<CustomTooltip />} cursor={{fill: '#f8fafc', opacity: 0.5}} />
+            {series.length > 0 ? (
+              <>
+                {SeriesLegend}
+                {series.map((s, i) => (
+                  <Bar
+                    key={s.key}
+                    dataKey={s.key}
+                    name={s.label}
+                    fill={colors[i % colors.length]}
+                    stackId={config.stacked ? 'stack' : undefined}
+                    radius={config.stacked ? undefined : [4, 4, 0, 0]}
+                    maxBarSize={40}
+                    hide={hiddenSeries.includes(s.key)}
+                    cursor={onDataClick ? 'pointer' : 'default'}
+                  >
+                    {showLabels && <LabelList dataKey={s.key} {...LabelProps} />}
+                  </Bar>
+                ))}
+              </>
+            ) : (
             <Bar dataKey={config.dataKey} name={config.dataKey} radius={[6, 6, 0, 0]} maxBarSize={60}>
               {chartData.map((entry, index) => (
                 <Cell 
@@ -309,6 +462,7 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
               ))}
               {showLabels && <LabelList dataKey={config.dataKey} {...LabelProps} />}
             </Bar>
+            )}
           </BarChart>
         );
       case 'line':
@@ -318,6 +472,25 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
             <XAxis {...XAxisProps} />
             <YAxis {...YAxisProps} />
             <Tooltip content={<CustomTooltip />} />
+            {series.length > 0 ? (
+              <>
+                {SeriesLegend}
+                {series.map((s, i) => (
+                  <Line
+                    key={s.key}
+                    type="monotone"
+                    dataKey={s.key}
+                    name={s.label}
+                    stroke={colors[i % colors.length]}
+                    strokeWidth={2}
+                    dot={{ r: 3, strokeWidth: 2, fill: '#fff', stroke: colors[i % colors.length] }}
+                    hide={hiddenSeries.includes(s.key)}
+                  >
+                    {showLabels && <LabelList dataKey={s.key} {...LabelProps} />}
+                  </Line>
+                ))}
+              </>
+            ) : (
             <Line 
               type="monotone" 
               dataKey={config.dataKey} 
@@ -328,6 +501,7 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
             >
                {showLabels && <LabelList dataKey={config.dataKey} {...LabelProps} />}
             </Line>
+            )}
           </LineChart>
         );
       case 'area':
@@ -338,6 +512,27 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
             <XAxis {...XAxisProps} />
             <YAxis {...YAxisProps} />
             <Tooltip content={<CustomTooltip />} />
+            {series.length > 0 ? (
+              <>
+                {SeriesLegend}
+                {series.map((s, i) => (
+                  <Area
+                    key={s.key}
+                    type="monotone"
+                    dataKey={s.key}
+                    name={s.label}
+                    stroke={colors[i % colors.length]}
+                    strokeWidth={2}
+                    fill={colors[i % colors.length]}
+                    fillOpacity={config.stacked ? 0.6 : 0.2}
+                    stackId={config.stacked ? 'stack' : undefined}
+                    hide={hiddenSeries.includes(s.key)}
+                  >
+                    {showLabels && <LabelList dataKey={s.key} {...LabelProps} />}
+                  </Area>
+                ))}
+              </>
+            ) : (
             <Area 
               type="monotone" 
               dataKey={config.dataKey} 
@@ -348,8 +543,106 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
             >
                {showLabels && <LabelList dataKey={config.dataKey} {...LabelProps} />}
             </Area>
+            )}
           </AreaChart>
         );
+      case 'combo': {
+        // Amount as bars on the left axis, a rate as a line on the right axis
+        const [barSeries, lineSeries] = series;
+        return (
+          <ComposedChart {...commonProps}>
+            {showGrid && <CartesianGrid {...GridProps} />}
+            <XAxis {...XAxisProps} />
+            <YAxis yAxisId="left" {...YAxisProps} tickFormatter={axisFormatterFor(config.dataKey, barSeries?.aggregation)} />
+            {lineSeries && (
+              <YAxis yAxisId="right" orientation="right" {...YAxisProps} tickFormatter={axisFormatterFor(lineSeries.measure, lineSeries.aggregation)} />
+            )}
+            <Tooltip content={<CustomTooltip />} cursor={{fill: '#f8fafc', opacity: 0.5}} />
+            {lineSeries && SeriesLegend}
+            <Bar
+              yAxisId="left"
+              dataKey={barSeries?.key || config.dataKey}
+              name={config.dataKey}
+              fill={colors[0]}
+              radius={[6, 6, 0, 0]}
+              maxBarSize={60}
+              hide={!!barSeries && hiddenSeries.includes(barSeries.key)}
+              cursor={onDataClick ? 'pointer' : 'default'}
+            >
+              {showLabels && <LabelList dataKey={barSeries?.key || config.dataKey} {...labelPropsFor(config.dataKey, barSeries?.aggregation)} />}
+            </Bar>
+            {lineSeries && (
+              <Line
+                yAxisId="right"
+                type="monotone"
+                dataKey={lineSeries.key}
+                name={lineSeries.label}
+                stroke={colors[1 % colors.length]}
+                strokeWidth={3}
+                dot={{ r: 4, strokeWidth: 2, fill: '#fff', stroke: colors[1 % colors.length] }}
+                hide={hiddenSeries.includes(lineSeries.key)}
+              >
+                {showLabels && <LabelList dataKey={lineSeries.key} {...labelPropsFor(lineSeries.measure, lineSeries.aggregation)} />}
+              </Line>
+            )}
+          </ComposedChart>
+        );
+      }
+      case 'pareto':
+        return (
+          <ComposedChart {...commonProps}>
+            {showGrid && <CartesianGrid {...GridProps} />}
+            <XAxis {...XAxisProps} />
+            <YAxis yAxisId="left" {...YAxisProps} />
+            <YAxis yAxisId="right" orientation="right" {...YAxisProps} domain={[0, 1]} tickFormatter={(val: any) => `${Math.round(Number(val) * 100)}%`} />
+            <Tooltip content={<CustomTooltip />} cursor={{fill: '#f8fafc', opacity: 0.5}} />
+            <Bar yAxisId="left" dataKey={config.dataKey} name={config.dataKey} fill={colors[0]} radius={[6, 6, 0, 0]} maxBarSize={60} cursor={onDataClick ? 'pointer' : 'default'}>
+              {showLabels && <LabelList dataKey={config.dataKey} {...LabelProps} />}
+            </Bar>
+            <Line
+              yAxisId="right"
+              type="monotone"
+              dataKey={CHART_FIELDS.cumulative}
+              name={t.cumulativePercent}
+              stroke={colors[1 % colors.length]}
+              strokeWidth={2}
+              dot={{ r: 3, strokeWidth: 2, fill: '#fff', stroke: colors[1 % colors.length] }}
+            />
+          </ComposedChart>
+        );
+      case 'waterfall':
+        // Each step is a visible bar stacked on an invisible base at the previous running total
+        return (
+          <BarChart {...commonProps}>
+            {showGrid && <CartesianGrid {...GridProps} />}
+            <XAxis {...XAxisProps} />
+            <YAxis {...YAxisProps} />
+            <Tooltip content={<CustomTooltip />} cursor={{fill: '#f8fafc', opacity: 0.5}} />
+            <Bar dataKey={CHART_FIELDS.base} stackId="waterfall" fill="transparent" tooltipType="none" isAnimationActive={false} />
+            <Bar dataKey={CHART_FIELDS.delta} stackId="waterfall" name={config.dataKey} maxBarSize={60}>
+              {chartData.map((entry, index) => (
+                <Cell
+                  key={`cell-${index}`}
+                  fill={WATERFALL_COLORS[entry[CHART_FIELDS.step] as WaterfallStep]}
+                  cursor={onDataClick ? 'pointer' : 'default'}
+                />
+              ))}
+              {showLabels && <LabelList dataKey="value" {...LabelProps} />}
+            </Bar>
+          </BarChart>
+        );
+      case 'histogram':
+        return (
+          <BarChart {...commonProps} barCategoryGap={1}>
+            {showGrid && <CartesianGrid {...GridProps} />}
+            <XAxis {...XAxisProps} dataKey="name" />
+            <YAxis {...YAxisProps} tickFormatter={formatCompactNumber} />
+            <Tooltip content={<CustomTooltip />} cursor={{fill: '#f8fafc', opacity: 0.5}} />
+            <Bar dataKey={CHART_FIELDS.count} name={config.dataKey} fill={colors[0]}>
+              {showLabels && <LabelList dataKey={CHART_FIELDS.count} {...LabelProps} formatter={formatCompactNumber} />}
+            </Bar>
+          </BarChart>
+        );
       case 'pie':
         return (
           <PieChart key={isExpanded ? 'exp-pie' : 'pie'} margin={{ top: 0, bottom: 20, left: 0, right: 0 }}>
@@ -363,7 +656,7 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
               innerRadius={isExpanded ? "40%" : "35%"} // Donut chart style
               paddingAngle={2}
               dataKey={config.dataKey}
-              nameKey={config.xAxisKey}
+              nameKey={xAxisKey}
               onClick={onDataClick ? handleChartClick : undefined} 
               cursor={onDataClick ? 'pointer' : 'default'}
               stroke="#fff"
@@ -386,7 +679,7 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
         return (
           <ScatterChart key={isExpanded ? 'exp-scatter' : 'scatter'} {...commonProps}>
             {showGrid && <CartesianGrid {...GridProps} />}
-            <XAxis dataKey={config.xAxisKey} name={config.xAxisKey} {...XAxisProps} />
+            <XAxis dataKey={xAxisKey} name={getColumnLabel(xAxisKey, language)} {...XAxisProps} />
             <YAxis dataKey={config.dataKey} name={config.dataKey} {...YAxisProps} />
             <Tooltip cursor={{ strokeDasharray: '3 3' }} content={<CustomTooltip />} />
             <Scatter name={config.title} data={chartData} fill={colors[0]} onClick={onDataClick ? (data) => handleChartClick(data) : undefined} cursor={onDataClick ? 'pointer' : 'default'}>
@@ -401,7 +694,7 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
         return (
           <RadarChart key={isExpanded ? 'exp-radar' : 'radar'} cx="50%" cy="50%" outerRadius={isExpanded ? "70%" : "60%"} data={chartData} margin={{ top: 10, bottom: 30, left: 10, right: 10 }}>
             <PolarGrid stroke="#e2e8f0" />
-            <PolarAngleAxis dataKey={config.xAxisKey} tick={{ fontSize: 10, fill: '#64748b' }} />
+            <PolarAngleAxis dataKey={xAxisKey} tick={{ fontSize: 10, fill: '#64748b' }} />
             <PolarRadiusAxis angle={30} domain={[0, 'auto']} tickFormatter={formatCompactNumber} tick={{ fontSize: 10, fill: '#94a3b8' }} axisLine={false} />
             <Radar
               name={config.dataKey}
@@ -427,8 +720,13 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
     pie: PieChartIcon,
     area: Activity,
     scatter: MousePointer2,
-    radar: RadarIcon
-  }[currentType] || BarChart3;
+    radar: RadarIcon,
+    combo: ChartNoAxesCombined,
+    pareto: ChartColumnDecreasing,
+    waterfall: ChartColumnStacked,
+    histogram: ChartColumn,
+    heatmap: Grid3x3
+  }[config.type] || BarChart3;
 
   return (
     <>
@@ -442,6 +740,16 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
           <div className="flex-1 pr-4">
             <h3 className="font-bold text-gray-800 text-lg leading-tight mb-1">{config.title}</h3>
             <p className="text-sm text-gray-500 line-clamp-2 leading-relaxed">{config.description}</p>
+            {hierarchy.length > 0 && (
+              <p className="text-[11px] text-gray-400 mt-1 flex items-center gap-1 flex-wrap" title={t.drillLevels}>
+                {hierarchy.map((column, i) => (
+                  <React.Fragment key={column}>
+                    {i > 0 && <span>›</span>}
+                    <span className={column === hierarchyKey ? 'text-blue-600 font-semibold' : ''}>{getColumnLabel(column, language)}</span>
+                  </React.Fragment>
+                ))}
+              </p>
+            )}
           </div>
           
           {/* Controls Toolbar */}
@@ -462,12 +770,12 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
                {activeMenu === 'type' && (
                  <div className="absolute right-0 top-full mt-2 w-40 bg-white rounded-xl shadow-xl border border-gray-100 p-1 z-30 animate-fade-in">
                     {(Object.keys(t.chartTypes) as Array<keyof typeof t.chartTypes>).map((type) => {
-                       const Icon = { bar: BarChart3, line: LineChartIcon, pie: PieChartIcon, area: Activity, scatter: MousePointer2, radar: RadarIcon }[type];
+                       const Icon = { bar: BarChart3, line: LineChartIcon, pie: PieChartIcon, area: Activity, scatter: MousePointer2, radar: RadarIcon, combo: ChartNoAxesCombined, pareto: ChartColumnDecreasing, waterfall: ChartColumnStacked, histogram: ChartColumn, heatmap: Grid3x3 }[type];
                        return (
                         <button
                           key={type}
-                          onClick={() => { setCurrentType(type); setActiveMenu('none'); }}
-                          className={`flex items-center gap-2 w-full p-2 text-xs rounded-lg ${currentType === type ? 'bg-blue-50 text-blue-600 font-medium' : 'text-gray-600 hover:bg-gray-50'}`}
+                          onClick={() => { onConfigChange?.({ ...config, type }); setActiveMenu('none'); }}
+                          className={`flex items-center gap-2 w-full p-2 text-xs rounded-lg ${config.type === type ? 'bg-blue-50 text-blue-600 font-medium' : 'text-gray-600 hover:bg-gray-50'}`}
                         >
                           <Icon className="w-3.5 h-3.5" />
                           {t.chartTypes[type]}
@@ -478,7 +786,120 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
                )}
              </div>
 
-             {/* 2. Palette */}
+             {/* 2. Aggregation */}
+             <div className="relative">
+               <button 
+                  onClick={() => setActiveMenu(activeMenu === 'aggregation' ? 'none' : 'aggregation')}
+                  className={`p-1.5 rounded-md transition-colors ${activeMenu === 'aggregation' ? 'bg-amber-50 text-amber-600' : 'text-gray-400 hover:text-amber-600 hover:bg-gray-50'}`}
+                  title={`${t.aggregation}: ${t.aggregations[aggregation]}`}
+               >
+                 <Sigma className="w-4 h-4" />
+               </button>
+               {activeMenu === 'aggregation' && (
+                 <div className="absolute right-0 top-full mt-2 w-40 bg-white rounded-xl shadow-xl border border-gray-100 p-1 z-30 animate-fade-in">
+                    {(Object.keys(t.aggregations) as AggregationType[]).map((type) => (
+                      <button
+                        key={type}
+                        onClick={() => { onConfigChange?.({ ...config, aggregation: type }); setActiveMenu('none'); }}
+                        className={`flex items-center gap-2 w-full p-2 text-xs rounded-lg ${aggregation === type ? 'bg-amber-50 text-amber-700 font-medium' : 'text-gray-600 hover:bg-gray-50'}`}
+                      >
+                        {t.aggregations[type]}
+                      </button>
+                    ))}
+                 </div>
+               )}
+             </div>
+
+             {/* 3. Series */}
+             <div className="relative">
+               <button 
+                  onClick={() => setActiveMenu(activeMenu === 'series' ? 'none' : 'series')}
+                  className={`p-1.5 rounded-md transition-colors ${activeMenu === 'series' || series.length > 0 || (config.type === 'heatmap' && config.yAxisKey) ? 'bg-teal-50 text-teal-600' : 'text-gray-400 hover:text-teal-600 hover:bg-gray-50'}`}
+                  title={t.seriesMenu}
+               >
+                 <Layers className="w-4 h-4" />
+               </button>
+               {activeMenu === 'series' && (
+                 <div className="absolute right-0 top-full mt-2 w-56 bg-white rounded-xl shadow-xl border border-gray-100 p-3 z-30 animate-fade-in flex flex-col gap-3">
+                    {config.type === 'combo' && (
+                       <div>
+                          <label className="text-xs font-bold text-gray-500 mb-1 block">{t.secondaryAxis}</label>
+                          <select
+                             value={config.secondaryKey || ''}
+                             onChange={(e) => onConfigChange?.({ ...config, type: 'combo', secondaryKey: e.target.value || undefined })}
+                             className="w-full px-2 py-1 border border-gray-200 rounded-lg text-xs bg-white text-gray-700"
+                          >
+                             <option value="">{t.noSplit}</option>
+                             {seriesColumns.measures.map(column => (
+                                <option key={column} value={column}>{column}</option>
+                             ))}
+                          </select>
+                          {config.secondaryKey && (
+                             <select
+                                value={series[1]?.aggregation || ''}
+                                onChange={(e) => onConfigChange?.({ ...config, type: 'combo', secondaryAggregation: e.target.value as AggregationType })}
+                                className="w-full mt-1 px-2 py-1 border border-gray-200 rounded-lg text-xs bg-white text-gray-700"
+                                title={t.aggregation}
+                             >
+                                {(Object.keys(t.aggregations) as AggregationType[]).map(type => (
+                                   <option key={type} value={type}>{t.aggregation}: {t.aggregations[type]}</option>
+                                ))}
+                             </select>
+                          )}
+                       </div>
+                    )}
+
+                    {config.type === 'heatmap' && (
+                       <div>
+                          <label className="text-xs font-bold text-gray-500 mb-1 block">{t.heatmapRows}</label>
+                          <select
+                             value={config.yAxisKey || ''}
+                             onChange={(e) => onConfigChange?.({ ...config, type: 'heatmap', yAxisKey: e.target.value || undefined })}
+                             className="w-full px-2 py-1 border border-gray-200 rounded-lg text-xs bg-white text-gray-700"
+                          >
+                             <option value="">-</option>
+                             {seriesColumns.heatmapRows.map(column => (
+                                <option key={column} value={column}>{getColumnLabel(column, language)}</option>
+                             ))}
+                          </select>
+                       </div>
+                    )}
+
+                    <div className={config.type === 'combo' || config.type === 'heatmap' ? 'hidden' : ''}>
+                       <label className="text-xs font-bold text-gray-500 mb-1 block">{t.splitBy}</label>
+                       <select
+                          value={config.seriesKey || ''}
+                          onChange={(e) => onConfigChange?.({ ...config, seriesKey: e.target.value || undefined })}
+                          className="w-full px-2 py-1 border border-gray-200 rounded-lg text-xs bg-white text-gray-700"
+                       >
+                          <option value="">{t.noSplit}</option>
+                          {seriesColumns.splitBy.map(column => (
+                             <option key={column} value={column}>{getColumnLabel(column, language)}</option>
+                          ))}
+                       </select>
+                    </div>
+
+                    <div className={config.type === 'combo' || config.type === 'heatmap' ? 'hidden' : config.seriesKey ? 'opacity-50 pointer-events-none' : ''}>
+                       <label className="text-xs font-bold text-gray-500 mb-1 block">{t.extraMeasures}</label>
+                       <div className="max-h-32 overflow-y-auto space-y-1">
+                          {seriesColumns.measures.map(column => (
+                             <label key={column} className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                                <input type="checkbox" checked={!!config.measures?.includes(column)} onChange={() => toggleMeasure(column)} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                                <span className="truncate">{column}</span>
+                             </label>
+                          ))}
+                       </div>
+                    </div>
+
+                    <div className={`flex items-center gap-2 ${config.type === 'heatmap' ? 'hidden' : ''}`}>
+                       <input type="checkbox" checked={!!config.stacked} onChange={(e) => onConfigChange?.({ ...config, stacked: e.target.checked })} id={`stacked-${index}`} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                       <label htmlFor={`stacked-${index}`} className="text-xs text-gray-600 cursor-pointer select-none">{t.stackedSeries}</label>
+                    </div>
+                 </div>
+               )}
+             </div>
+
+             {/* 4. Palette */}
              <div className="relative">
                <button 
                   onClick={() => setActiveMenu(activeMenu === 'palette' ? 'none' : 'palette')}
@@ -507,7 +928,7 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
                )}
              </div>
              
-             {/* 3. Layout / Size */}
+             {/* 5. Layout / Size */}
              <div className="relative">
                 <button
                    onClick={() => setActiveMenu(activeMenu === 'layout' ? 'none' : 'layout')}
@@ -544,6 +965,97 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
                          </div>
                       </div>
 
+                      <div>
+                         <label className="text-xs font-bold text-gray-500 mb-1 block">{t.chartLimit}</label>
+                         <select
+                            value={limit}
+                            onChange={(e) => onConfigChange?.({ ...config, limit: Number(e.target.value) })}
+                            disabled={isTimeAxis && config.showAllPeriods}
+                            className="w-full px-2 py-1 border border-gray-200 rounded-lg text-xs bg-white text-gray-700 disabled:opacity-50"
+                         >
+                            {CHART_LIMIT_OPTIONS.map(option => (
+                               <option key={option} value={option}>{option === 0 ? t.showAllItems : option}</option>
+                            ))}
+                         </select>
+                      </div>
+
+                      {isTimeAxis && (
+                         <div>
+                            <label className="text-xs font-bold text-gray-500 mb-1 block">{t.timeGrain}</label>
+                            <select
+                               value={config.timeGrain || ''}
+                               onChange={(e) => onConfigChange?.({ ...config, timeGrain: (e.target.value || undefined) as TimeGrain | undefined })}
+                               className="w-full px-2 py-1 border border-gray-200 rounded-lg text-xs bg-white text-gray-700"
+                            >
+                               <option value="">{t.rawDates}</option>
+                               {(Object.keys(t.timeGrains) as TimeGrain[]).map(grain => (
+                                  <option key={grain} value={grain}>{t.timeGrains[grain]}</option>
+                               ))}
+                            </select>
+                            {config.timeGrain === 'fiscalYear' && (
+                               <select
+                                  value={config.fiscalYearStart || 1}
+                                  onChange={(e) => onConfigChange?.({ ...config, fiscalYearStart: Number(e.target.value) })}
+                                  className="w-full mt-1 px-2 py-1 border border-gray-200 rounded-lg text-xs bg-white text-gray-700"
+                                  title={t.fiscalYearStart}
+                               >
+                                  {Array.from({ length: 12 }, (_, i) => (
+                                     <option key={i} value={i + 1}>{t.fiscalYearStart}: {i + 1}</option>
+                                  ))}
+                               </select>
+                            )}
+                         </div>
+                      )}
+
+                      {isTimeAxis ? (
+                         <div className="flex items-center gap-2">
+                            <input type="checkbox" checked={!!config.showAllPeriods} onChange={(e) => onConfigChange?.({ ...config, showAllPeriods: e.target.checked })} id={`periods-${index}`} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                            <label htmlFor={`periods-${index}`} className="text-xs text-gray-600 cursor-pointer select-none">{t.showAllPeriods}</label>
+                         </div>
+                      ) : (
+                         <div className="flex items-center gap-2">
+                            <input type="checkbox" checked={!!config.showOthers} onChange={(e) => onConfigChange?.({ ...config, showOthers: e.target.checked })} id={`others-${index}`} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                            <label htmlFor={`others-${index}`} className="text-xs text-gray-600 cursor-pointer select-none">{t.showOthers}</label>
+                         </div>
+                      )}
+
+                      <div>
+                         <label className="text-xs font-bold text-gray-500 mb-1 block">{t.drillLevels}</label>
+                         {hierarchy.map((column, i) => (
+                            <div key={column} className="flex items-center gap-1 text-xs text-gray-600 py-0.5">
+                               <span className="text-gray-400 w-4">{i + 1}.</span>
+                               <span className="truncate flex-1">{getColumnLabel(column, language)}</span>
+                               <button onClick={() => removeDrillLevel(column)} className="text-gray-400 hover:text-red-500"><X className="w-3 h-3" /></button>
+                            </div>
+                         ))}
+                         <select
+                            value=""
+                            onChange={(e) => e.target.value && addDrillLevel(e.target.value)}
+                            className="w-full mt-1 px-2 py-1 border border-gray-200 rounded-lg text-xs bg-white text-gray-700"
+                         >
+                            <option value="">{t.addDrillLevel}</option>
+                            {seriesColumns.drillLevels.filter(column => !hierarchy.includes(column) && (hierarchy.length > 0 || column !== config.xAxisKey)).map(column => (
+                               <option key={column} value={column}>{getColumnLabel(column, language)}</option>
+                            ))}
+                         </select>
+                      </div>
+
+                      {sourceDimensions.length > 0 && (
+                         <div>
+                            <label className="text-xs font-bold text-gray-500 mb-1 block">{t.chartDimension}</label>
+                            <select
+                               value={dimension}
+                               onChange={(e) => setDimension(e.target.value)}
+                               className="w-full px-2 py-1 border border-gray-200 rounded-lg text-xs bg-white text-gray-700"
+                            >
+                               <option value="">{t.defaultDimension}</option>
+                               {sourceDimensions.map(key => (
+                                  <option key={key} value={key}>{getColumnLabel(key, language)}</option>
+                               ))}
+                            </select>
+                         </div>
+                      )}
+
                       <div className="flex items-center gap-2">
                          <input type="checkbox" checked={showLabels} onChange={(e) => setShowLabels(e.target.checked)} id={`labels-${index}`} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
                          <label htmlFor={`labels-${index}`} className="text-xs text-gray-600 cursor-pointer select-none">{t.showLabels}</label>
@@ -557,7 +1069,7 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
                 )}
              </div>
 
-             {/* 4. Export Image */}
+             {/* 6. Export Image */}
              <button 
                 onClick={handleExport}
                 disabled={isExporting}
@@ -567,7 +1079,7 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
                 {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImageDown className="w-4 h-4" />}
              </button>
 
-             {/* 5. Drag Handle (if using grid layout) */}
+             {/* 7. Drag Handle (if using grid layout) */}
              <div className="drag-handle p-1.5 cursor-move text-gray-300 hover:text-gray-600">
                 <GripHorizontal className="w-4 h-4" />
              </div>
@@ -580,19 +1092,40 @@ const ChartRenderer: React.FC<ChartRendererProps> = ({ config, data, index, onDa
            className="flex-1 w-full relative min-w-0"
            style={{ height: chartHeight, minHeight: chartHeight }}
         >
-             <ResponsiveContainer width="100%" height="100%" minWidth={0}>
-               {renderChart(false)}
-             </ResponsiveContainer>
+             {config.type === 'heatmap' ? (
+               heatmap ? (
+                 <HeatmapChart
+                   heatmap={heatmap}
+                   xAxisKey={xAxisKey}
+                   yAxisKey={config.yAxisKey!}
+                   color={colors[0]}
+                   formatValue={(value) => isPercentageColumn(config.dataKey) ? `${(value * 100).toFixed(1)}%` : formatNumber(value)}
+                   onCellClick={onDataClick ? handleHeatmapClick : undefined}
+                   language={language}
+                 />
+               ) : (
+                 <div className="h-full flex items-center justify-center text-sm text-gray-400">{t.heatmapRowsHint}</div>
+               )
+             ) : (
+               <ResponsiveContainer width="100%" height="100%" minWidth={0}>
+                 {renderChart(false)}
+               </ResponsiveContainer>
+             )}
         </div>
         
         {/* Drill Down Banner (Inside Card Footer) */}
-        {drillDown && onClearDrillDown && (
+        {drillPath.length > 0 && onClearDrillDown && (
             <div className="bg-blue-50 border-t border-blue-100 px-3 py-2 flex justify-between items-center text-xs mt-auto">
                 <span className="text-blue-700 truncate max-w-[70%] flex items-center gap-1">
                     <span className="bg-blue-200 text-blue-800 px-1 rounded font-mono font-bold text-[10px]">FILTER</span>
-                    <span className="font-semibold">{drillDown.column}</span>
-                    <span className="text-gray-400">=</span>
-                    <span className="font-bold">{drillDown.value}</span>
+                    {drillPath.map((filter, i) => (
+                        <React.Fragment key={filter.column}>
+                            {i > 0 && <span className="text-gray-400">›</span>}
+                            <span className="font-semibold">{getColumnLabel(filter.column, language)}</span>
+                            <span className="text-gray-400">=</span>
+                            <span className="font-bold">{filter.value}</span>
+                        </React.Fragment>
+                    ))}
                 </span>
                 <button
                     onClick={(e) => { e.stopPropagation(); onClearDrillDown(); }}
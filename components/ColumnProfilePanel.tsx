@@ -0,0 +1,116 @@
+
+import React, { useMemo, useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react';
+import { ColumnType, ColumnTypeOverrides, ExcelDataRow, Language } from '../types';
+import { getColumnKind, getDataColumns, getColumnLabel } from '../utils';
+import { translations } from '../i18n';
+
+interface ColumnProfilePanelProps {
+  data: ExcelDataRow[];
+  columnTypes: ColumnTypeOverrides;
+  onChange: (columnTypes: ColumnTypeOverrides) => void;
+  language: Language;
+}
+
+const COLUMN_TYPES: ColumnType[] = ['date', 'number', 'currency', 'percent', 'identifier', 'category'];
+
+// Rows scanned for fill rate, distinct values and samples
+const PROFILE_SAMPLE_SIZE = 1000;
+
+const ColumnProfilePanel: React.FC<ColumnProfilePanelProps> = ({ data, columnTypes, onChange, language }) => {
+  const t = translations[language];
+  const [isOpen, setIsOpen] = useState(false);
+
+  const profiles = useMemo(() => {
+    const sample = data.slice(0, PROFILE_SAMPLE_SIZE);
+    return getDataColumns(data).map(column => {
+      const values = sample.map(row => row[column]).filter(val => val !== null && val !== undefined && String(val).trim() !== '');
+      const distinctValues = Array.from(new Set(values.map(String)));
+      return {
+        column,
+        detected: getColumnKind(data, column),
+        fillRate: sample.length > 0 ? values.length / sample.length : 0,
+        distinct: distinctValues.length,
+        examples: distinctValues.slice(0, 3),
+      };
+    });
+  }, [data]);
+
+  const overrideCount = Object.keys(columnTypes).length;
+
+  const setColumnType = (column: string, type: string) => {
+    const next = { ...columnTypes };
+    if (type) next[column] = type as ColumnType;
+    else delete next[column];
+    onChange(next);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-4 flex items-center gap-2 text-left hover:bg-gray-50 transition-colors"
+      >
+        <SlidersHorizontal className="w-5 h-5 text-indigo-500" />
+        <h3 className="text-lg font-bold text-gray-800">{t.columnProfile}</h3>
+        {overrideCount > 0 && (
+          <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full">{overrideCount} {t.columnTypeOverridden}</span>
+        )}
+        <span className="ml-auto text-gray-400">{isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}</span>
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-6">
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-xs text-gray-500">{t.columnProfileDesc}</p>
+            {overrideCount > 0 && (
+              <button onClick={() => onChange({})} className="text-xs text-gray-500 hover:text-blue-600 flex items-center gap-1 shrink-0">
+                <RotateCcw className="w-3 h-3" /> {t.resetColumnTypes}
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-auto border border-gray-100 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs text-gray-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 font-semibold">{t.column}</th>
+                  <th className="px-3 py-2 font-semibold">{t.columnTypeLabel}</th>
+                  <th className="px-3 py-2 font-semibold text-right">{t.fillRate}</th>
+                  <th className="px-3 py-2 font-semibold text-right">{t.distinctValues}</th>
+                  <th className="px-3 py-2 font-semibold">{t.sampleValues}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {profiles.map(profile => {
+                  const override = columnTypes[profile.column];
+                  return (
+                    <tr key={profile.column} className={override ? 'bg-indigo-50/40' : ''}>
+                      <td className="px-3 py-2 font-medium text-gray-800 whitespace-nowrap">{getColumnLabel(profile.column, language)}</td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={override || ''}
+                          onChange={(e) => setColumnType(profile.column, e.target.value)}
+                          className={`border rounded px-2 py-1 text-xs bg-white ${override ? 'border-indigo-300 text-indigo-700 font-medium' : 'border-gray-300 text-gray-700'}`}
+                        >
+                          <option value="">{t.autoDetected} ({t.columnTypes[profile.detected]})</option>
+                          {COLUMN_TYPES.map(type => (
+                            <option key={type} value={type}>{t.columnTypes[type]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono text-gray-600">{Math.round(profile.fillRate * 100)}%</td>
+                      <td className="px-3 py-2 text-right font-mono text-gray-600">{profile.distinct.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-xs text-gray-500 truncate max-w-[240px]" title={profile.examples.join(', ')}>{profile.examples.join(', ')}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColumnProfilePanel;
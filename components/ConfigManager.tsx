@@ -1,9 +1,9 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Plus, Trash2, Settings, MessageSquare, Briefcase, Download, Upload, X, CheckSquare, Square, FolderSync, FolderCheck, Loader2 } from 'lucide-react';
+import { Plus, Trash2, Settings, MessageSquare, Briefcase, Download, Upload, X, CheckSquare, Square, FolderSync, FolderCheck, Loader2, Server } from 'lucide-react';
 import { translations } from '../i18n';
-import { Language, AnalysisTemplate, AnalysisGroup } from '../types';
-import { configService } from '../services/configService'; 
+import { Language, AnalysisTemplate, AnalysisGroup, AIProviderSettings, AIProviderType } from '../types';
+import { configService, DEFAULT_PROVIDER_SETTINGS } from '../services/configService'; 
 import { fileSystemService } from '../services/fileSystemService';
 
 interface ConfigManagerProps {
@@ -13,7 +13,7 @@ interface ConfigManagerProps {
   onUpdate?: () => void;
 }
 
-type Tab = 'groups' | 'templates';
+type Tab = 'groups' | 'templates' | 'provider';
 
 const ConfigManager: React.FC<ConfigManagerProps> = ({ language, isOpen, onClose, onUpdate }) => {
   const t = translations[language];
@@ -24,6 +24,7 @@ const ConfigManager: React.FC<ConfigManagerProps> = ({ language, isOpen, onClose
 
   const [editGroup, setEditGroup] = useState<Partial<AnalysisGroup> | null>(null);
   const [editTemplate, setEditTemplate] = useState<Partial<AnalysisTemplate> | null>(null);
+  const [provider, setProvider] = useState<AIProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
   
   const [isSynced, setIsSynced] = useState(false);
   const [isLinking, setIsLinking] = useState(false);
@@ -43,6 +44,7 @@ const ConfigManager: React.FC<ConfigManagerProps> = ({ language, isOpen, onClose
   const refreshData = () => {
     setGroups(configService.getGroups());
     setTemplates(configService.getTemplates());
+    setProvider(configService.getProviderSettings());
   };
 
   const handleLinkFolder = async () => {
@@ -164,6 +166,21 @@ const ConfigManager: React.FC<ConfigManagerProps> = ({ language, isOpen, onClose
     refreshData();
   };
 
+  const handleProviderTypeChange = (type: AIProviderType) => {
+    // Switching back to Gemini restores its default model; other endpoints name their own
+    setProvider({ type, model: type === 'gemini' ? DEFAULT_PROVIDER_SETTINGS.model : '', baseUrl: provider.baseUrl, apiKey: '' });
+  };
+
+  const handleSaveProvider = () => {
+    configService.saveProviderSettings({
+      ...provider,
+      model: provider.model.trim(),
+      baseUrl: provider.baseUrl?.trim() || undefined,
+      apiKey: provider.apiKey?.trim() || undefined,
+    });
+    alert(t.providerSaved);
+  };
+
 
   if (!isOpen) return null;
 
@@ -228,6 +245,12 @@ const ConfigManager: React.FC<ConfigManagerProps> = ({ language, isOpen, onClose
             >
               <MessageSquare className="w-4 h-4" /> {t.tabTemplates}
             </button>
+            <button 
+              onClick={() => setActiveTab('provider')} 
+              className={`flex items-center gap-3 px-4 py-3 rounded-xl text-sm font-medium transition-colors ${activeTab === 'provider' ? 'bg-blue-600 text-white shadow-md' : 'text-gray-700 hover:bg-white hover:shadow-sm'}`}
+            >
+              <Server className="w-4 h-4" /> {t.tabProvider}
+            </button>
           </div>
 
           {/* Main Content */}
@@ -362,6 +385,41 @@ const ConfigManager: React.FC<ConfigManagerProps> = ({ language, isOpen, onClose
                 )}
                </div>
             )}
+
+            {/* PROVIDER TAB */}
+            {activeTab === 'provider' && (
+              <div>
+                <h3 className="text-2xl font-bold text-gray-800 mb-2">{t.tabProvider}</h3>
+                <p className="text-sm text-gray-500 mb-6">{t.providerDesc}</p>
+                <div className="bg-gray-50 p-6 rounded-xl border border-blue-100 space-y-4 max-w-2xl">
+                  <div>
+                    <label className="text-xs font-bold text-gray-500 mb-1 block">{t.lblProvider}</label>
+                    <select className="w-full p-2.5 border rounded-lg bg-white" value={provider.type} onChange={e => handleProviderTypeChange(e.target.value as AIProviderType)}>
+                      <option value="gemini">Google Gemini</option>
+                      <option value="openai">{t.providerOpenAI}</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-xs font-bold text-gray-500 mb-1 block">{t.lblModel}</label>
+                    <input className="w-full p-2.5 border rounded-lg bg-white font-mono text-sm" placeholder={provider.type === 'gemini' ? DEFAULT_PROVIDER_SETTINGS.model : 'qwen2.5:14b'} value={provider.model} onChange={e => setProvider({ ...provider, model: e.target.value })} />
+                  </div>
+                  {provider.type === 'openai' && (
+                    <div>
+                      <label className="text-xs font-bold text-gray-500 mb-1 block">{t.lblBaseUrl}</label>
+                      <input className="w-full p-2.5 border rounded-lg bg-white font-mono text-sm" placeholder="http://llm-server:11434/v1" value={provider.baseUrl || ''} onChange={e => setProvider({ ...provider, baseUrl: e.target.value })} />
+                    </div>
+                  )}
+                  <div>
+                    <label className="text-xs font-bold text-gray-500 mb-1 block">{t.lblApiKey}</label>
+                    <input type="password" autoComplete="off" className="w-full p-2.5 border rounded-lg bg-white font-mono text-sm" placeholder={provider.type === 'gemini' ? t.apiKeyGeminiHint : t.apiKeyOptional} value={provider.apiKey || ''} onChange={e => setProvider({ ...provider, apiKey: e.target.value })} />
+                    <p className="text-xs text-gray-400 mt-1">{t.apiKeyLocalOnly}</p>
+                  </div>
+                  <div className="flex justify-end pt-4">
+                    <button onClick={handleSaveProvider} disabled={!provider.model.trim() || (provider.type === 'openai' && !provider.baseUrl?.trim())} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50">{t.save}</button>
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -1,15 +1,29 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { AnalysisResult, ExcelDataRow, Language } from '../types';
+import { AnalysisResult, ChartConfig, DashboardView, DrillDownFilter, ExcelDataRow, FilterCriterion, Language, ColumnTypeOverrides, SlicerState } from '../types';
 import ChartRenderer from './ChartRenderer';
 import DataTable from './DataTable';
-import { Sparkles, FileText, Download, Filter, Plus, X, Trash2, ChevronDown, FilterX, RefreshCw, Clock, AlertCircle, Calendar, Lightbulb, Loader2 } from 'lucide-react';
-import { exportToCSV, exportToJSON, exportToExcel, exportToPDF, exportToPPTX, detectColumnType, parseDateSafe } from '../utils';
+import ColumnProfilePanel from './ColumnProfilePanel';
+import PivotPanel from './PivotPanel';
+import SlicerPanel from './SlicerPanel';
+import KpiCards from './KpiCards';
+import { Sparkles, FileText, Download, Filter, Plus, X, Trash2, ChevronDown, ChevronRight, FilterX, RefreshCw, Clock, AlertCircle, Calendar, Lightbulb, Loader2, WifiOff } from 'lucide-react';
+import { exportToCSV, exportToJSON, exportToExcel, exportToPDF, exportToPPTX, detectColumnType, parseDateSafe, getColumnLabel, isSummaryRow, getDetailRows, applyFilters, applySlicers } from '../utils';
+import { configService } from '../services/configService';
 import { translations } from '../i18n';
 import { Responsive, WidthProvider } from 'react-grid-layout';
 
 const ResponsiveGridLayout = WidthProvider(Responsive);
 
+/**
+ * Adds clicked filters to the drill path. A column that is already filtered is
+ * re-filtered at its own step, dropping the steps after it.
+ */
+const narrowDrillPath = (path: DrillDownFilter[], filters: DrillDownFilter[]): DrillDownFilter[] => {
+  const replaced = path.findIndex(step => filters.some(filter => filter.column === step.column));
+  return [...(replaced === -1 ? path : path.slice(0, replaced)), ...filters];
+};
+
 interface DashboardProps {
   analysis: AnalysisResult;
   data: ExcelDataRow[];
@@ -19,6 +33,12 @@ interface DashboardProps {
   isRefreshing: boolean;
   lastUpdated: number;
   language: Language;
+  includeSummaryRows: boolean;
+  onIncludeSummaryRowsChange: (include: boolean) => void;
+  columnTypes: ColumnTypeOverrides;
+  onColumnTypesChange: (columnTypes: ColumnTypeOverrides) => void;
+  onAnalysisChange: (analysis: AnalysisResult) => void;
+  schemaFingerprint: string;
 }
 
 const Dashboard: React.FC<DashboardProps> = ({ 
@@ -29,7 +49,13 @@ const Dashboard: React.FC<DashboardProps> = ({
   onRefresh,
   isRefreshing,
   lastUpdated,
-  language
+  language,
+  includeSummaryRows,
+  onIncludeSummaryRowsChange,
+  columnTypes,
+  onColumnTypesChange,
+  onAnalysisChange,
+  schemaFingerprint
 }) => {
   const t = translations[language];
   
@@ -41,25 +67,46 @@ const Dashboard: React.FC<DashboardProps> = ({
   const [isExporting, setIsExporting] = useState(false);
   const exportMenuRef = useRef<HTMLDivElement>(null);
 
-  // Drill Down State
-  const [drillDown, setDrillDown] = useState<{ column: string; value: string } | null>(null);
+  // Slicers and saved views
+  const [slicers, setSlicers] = useState<SlicerState>({ categories: [] });
+  const [views, setViews] = useState<DashboardView[]>([]);
+  const [activeViewId, setActiveViewId] = useState('');
+
+  useEffect(() => {
+    setViews(configService.getViews(schemaFingerprint));
+    setActiveViewId('');
+  }, [schemaFingerprint]);
+
+  // Filters set from the data table; they apply to every chart, the row count and the exports
+  const [filters, setFilters] = useState<FilterCriterion[]>([]);
+
+  // Drill Down State: each click narrows the path further
+  const [drillPath, setDrillPath] = useState<DrillDownFilter[]>([]);
 
   // Grid Layout State
   const [layouts, setLayouts] = useState<any>({ lg: [] });
 
-  // Init Layout
+  // Init Layout: only when charts are added or removed, so toolbar changes keep dragged and resized positions
+  const chartIdsKey = analysis.charts.map(chart => chart.id).join('\u0000');
   useEffect(() => {
-    const initialLayout = analysis.charts.map((chart, i) => ({
-      i: chart.id,
+    const defaultItem = (id: string, i: number) => ({
+      i: id,
       x: (i % 2) * 6,
       y: Math.floor(i / 2) * 10,
       w: 6,
       h: 12,
       minW: 3,
       minH: 8
-    }));
-    setLayouts({ lg: initialLayout, md: initialLayout, sm: initialLayout });
-  }, [analysis]);
+    });
+    setLayouts((prev: any) => {
+      const next: any = {};
+      ['lg', 'md', 'sm', ...Object.keys(prev)].forEach(breakpoint => {
+        const existing: any[] = prev[breakpoint] || [];
+        next[breakpoint] = analysis.charts.map((chart, i) => existing.find(item => item.i === chart.id) || defaultItem(chart.id, i));
+      });
+      return next;
+    });
+  }, [chartIdsKey]);
 
   // Auto-refresh logic
   useEffect(() => {
@@ -83,18 +130,62 @@ const Dashboard: React.FC<DashboardProps> = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  // 1. Drill Down Filtering Logic (Global for Charts)
+  // 1. Filtering Logic (Global for Charts, Table and Exports)
   const filteredData = useMemo(() => {
-    let res = data;
+    let res = applyFilters(applySlicers(data, slicers), filters, columnTypes);
     // Apply Drill Down
-    if (drillDown) {
-      res = res.filter(row => String(row[drillDown.column]) === drillDown.value);
+    if (drillPath.length > 0) {
+      res = res.filter(row => drillPath.every(filter => String(row[filter.column]) === filter.value));
     }
     return res;
-  }, [data, drillDown]);
+  }, [data, slicers, filters, columnTypes, drillPath]);
+
+  // Charts and the Excel pivot summary skip subtotal/total rows so they aren't counted twice
+  const chartData = useMemo(() => getDetailRows(filteredData, includeSummaryRows), [filteredData, includeSummaryRows]);
+  const summaryRowCount = useMemo(() => data.filter(isSummaryRow).length, [data]);
+
+  const handleChartClick = (filters: DrillDownFilter[]) => {
+    setDrillPath(prev => narrowDrillPath(prev, filters));
+  };
+
+  // Chart settings that exports depend on (e.g. aggregation) are kept on the analysis itself
+  const handleChartConfigChange = (config: ChartConfig) => {
+    onAnalysisChange({ ...analysis, charts: analysis.charts.map(chart => chart.id === config.id ? config : chart) });
+  };
+
+  const handleAddChart = (chart: ChartConfig) => {
+    onAnalysisChange({ ...analysis, charts: [...analysis.charts, chart] });
+  };
+
+  // A view restores the slicers, filters and chart settings it was saved with
+  const handleSaveView = (name: string) => {
+    const existing = views.find(v => v.name === name);
+    const view: DashboardView = {
+      id: existing?.id || Date.now().toString(),
+      name,
+      fingerprint: schemaFingerprint,
+      slicers,
+      filters,
+      charts: analysis.charts,
+      updatedAt: Date.now(),
+    };
+    configService.saveView(view);
+    setViews(configService.getViews(schemaFingerprint));
+    setActiveViewId(view.id);
+  };
+
+  const handleApplyView = (view: DashboardView) => {
+    setSlicers(view.slicers);
+    setFilters(view.filters);
+    setDrillPath([]);
+    onAnalysisChange({ ...analysis, charts: view.charts });
+    setActiveViewId(view.id);
+  };
 
-  const handleChartClick = (column: string, value: string) => {
-    setDrillDown({ column, value });
+  const handleDeleteView = (id: string) => {
+    configService.deleteView(id);
+    setViews(configService.getViews(schemaFingerprint));
+    setActiveViewId('');
   };
 
   const handleExport = async (format: 'csv' | 'json' | 'excel' | 'pdf' | 'pptx') => {
@@ -104,9 +195,9 @@ const Dashboard: React.FC<DashboardProps> = ({
       try {
         if (format === 'csv') exportToCSV(filteredData, `${fileName || 'export'}.csv`);
         if (format === 'json') exportToJSON(filteredData, `${fileName || 'export'}.json`);
-        if (format === 'excel') exportToExcel(filteredData, `${fileName || 'export'}.xlsx`, analysis, language);
+        if (format === 'excel') exportToExcel(chartData, `${fileName || 'export'}.xlsx`, analysis, language, columnTypes);
         if (format === 'pdf') await exportToPDF('dashboard-content', `${fileName || 'report'}.pdf`);
-        if (format === 'pptx') await exportToPPTX(analysis, `${fileName || 'presentation'}.pptx`, language);
+        if (format === 'pptx') await exportToPPTX(analysis, `${fileName || 'presentation'}.pptx`, language, chartData, columnTypes);
       } catch (e) {
         console.error(e);
         alert(t.unknownError);
@@ -131,6 +222,15 @@ const Dashboard: React.FC<DashboardProps> = ({
                    <span className="bg-gray-100 px-2 py-0.5 rounded text-gray-600 font-medium truncate max-w-[200px]" title={fileName}>{fileName}</span>
                    <span>•</span>
                    <span>{t.displayCount} <strong className="text-gray-800">{filteredData.length.toLocaleString()}</strong> {t.dataCount}</span>
+                   {summaryRowCount > 0 && (
+                     <>
+                       <span>•</span>
+                       <label className="flex items-center gap-1 cursor-pointer" title={t.summaryRowsDesc}>
+                         <input type="checkbox" checked={includeSummaryRows} onChange={(e) => onIncludeSummaryRowsChange(e.target.checked)} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                         {t.includeSummaryRows} ({summaryRowCount.toLocaleString()})
+                       </label>
+                     </>
+                   )}
                 </div>
              </div>
 
@@ -174,6 +274,11 @@ const Dashboard: React.FC<DashboardProps> = ({
                     <Sparkles className="w-5 h-5 text-yellow-300" />
                     <h3 className="text-lg font-bold tracking-wide uppercase opacity-90">{t.aiSummary}</h3>
                  </div>
+                 {analysis.offline && (
+                    <span className="inline-flex items-center gap-1 mb-3 px-2 py-0.5 rounded-full bg-white/20 text-xs font-medium" title={t.offlineBadgeHint}>
+                       <WifiOff className="w-3 h-3" /> {t.offlineBadge}
+                    </span>
+                 )}
                  <div className="w-12 h-1 bg-white/30 rounded-full mb-4"></div>
                  <p className="text-blue-100 text-sm italic">{t.insightNote}</p>
               </div>
@@ -187,21 +292,7 @@ const Dashboard: React.FC<DashboardProps> = ({
           </div>
       </div>
 
-      {/* 3. Drill Down Banner */}
-      {drillDown && (
-         <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 flex items-center justify-between animate-fade-in shadow-sm">
-            <div className="flex items-center gap-3">
-               <div className="bg-blue-100 p-1.5 rounded-full"><FilterX className="w-4 h-4 text-blue-600" /></div>
-               <div>
-                  <h4 className="font-bold text-blue-800 text-sm flex items-center gap-2">{t.drillDownActive}: <span className="bg-white px-2 py-0.5 rounded border border-blue-200 text-blue-600 font-mono">{drillDown.column} = {drillDown.value}</span></h4>
-                  <p className="text-xs text-blue-600 mt-0.5">{t.drillDownDesc}</p>
-               </div>
-            </div>
-            <button onClick={() => setDrillDown(null)} className="text-sm text-blue-600 hover:text-blue-800 font-medium hover:underline px-3 py-1">{t.clearDrillDown}</button>
-         </div>
-      )}
-
-      {/* 4. Key Insights */}
+      {/* 3. Key Insights */}
       <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
          <div className="flex items-center gap-2 mb-4">
             <Lightbulb className="w-5 h-5 text-yellow-500" />
@@ -222,7 +313,74 @@ const Dashboard: React.FC<DashboardProps> = ({
          </div>
       </div>
 
-      {/* 5. Charts Grid (Draggable) */}
+      {/* 4. Slicers and Saved Views */}
+      <SlicerPanel
+        data={data}
+        slicers={slicers}
+        onChange={setSlicers}
+        columnTypes={columnTypes}
+        language={language}
+        views={views}
+        activeViewId={activeViewId}
+        onSaveView={handleSaveView}
+        onApplyView={handleApplyView}
+        onDeleteView={handleDeleteView}
+      />
+
+      {/* 5. Active Filters and Drill Down Breadcrumb */}
+      {filters.length > 0 && (
+         <div className="bg-white border border-gray-200 rounded-lg p-3 flex items-center justify-between gap-3 animate-fade-in shadow-sm">
+            <div className="flex items-center gap-2 flex-wrap">
+               <Filter className="w-4 h-4 text-blue-600" />
+               <span className="text-sm font-bold text-gray-700">{t.activeFilters}:</span>
+               {filters.map(f => (
+                  <span key={f.id} className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm bg-white border border-blue-200 text-blue-700 shadow-sm">
+                     <span className="font-semibold text-gray-600">{getColumnLabel(f.column, language)}</span>
+                     <span className="text-blue-400 font-mono text-xs uppercase">{t.ops[f.operator] || f.operator}</span>
+                     <span className="font-bold">{f.value} {f.secondValue ? ` - ${f.secondValue}` : ''}</span>
+                     <button onClick={() => setFilters(filters.filter(other => other.id !== f.id))} className="hover:bg-red-50 hover:text-red-500 rounded-full p-0.5 transition-colors"><X className="w-3 h-3" /></button>
+                  </span>
+               ))}
+            </div>
+            <button onClick={() => setFilters([])} className="text-xs text-red-500 hover:text-red-700 underline shrink-0">{t.clearAll}</button>
+         </div>
+      )}
+      {drillPath.length > 0 && (
+         <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 flex items-center justify-between animate-fade-in shadow-sm">
+            <div className="flex items-center gap-3">
+               <div className="bg-blue-100 p-1.5 rounded-full"><FilterX className="w-4 h-4 text-blue-600" /></div>
+               <div>
+                  <nav className="font-bold text-blue-800 text-sm flex items-center gap-1 flex-wrap" aria-label={t.drillDownActive}>
+                    <button onClick={() => setDrillPath([])} className="hover:underline">{t.allData}</button>
+                    {drillPath.map((filter, i) => (
+                      <React.Fragment key={filter.column}>
+                        <ChevronRight className="w-4 h-4 text-blue-400" />
+                        <button
+                          onClick={() => setDrillPath(drillPath.slice(0, i + 1))}
+                          disabled={i === drillPath.length - 1}
+                          className="bg-white px-2 py-0.5 rounded border border-blue-200 text-blue-600 font-mono enabled:hover:bg-blue-100 disabled:cursor-default"
+                        >
+                          {getColumnLabel(filter.column, language)} = {filter.value}
+                        </button>
+                      </React.Fragment>
+                    ))}
+                  </nav>
+                  <p className="text-xs text-blue-600 mt-0.5">{t.drillDownDesc}</p>
+               </div>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+               <button onClick={() => setDrillPath(drillPath.slice(0, -1))} className="text-sm text-blue-600 hover:text-blue-800 font-medium hover:underline px-3 py-1">{t.drillUp}</button>
+               <button onClick={() => setDrillPath([])} className="text-sm text-blue-600 hover:text-blue-800 font-medium hover:underline px-3 py-1">{t.clearDrillDown}</button>
+            </div>
+         </div>
+      )}
+
+      {/* 6. KPI Cards (computed from the filtered rows) */}
+      {analysis.kpis && analysis.kpis.length > 0 && (
+        <KpiCards kpis={analysis.kpis} data={chartData} columnTypes={columnTypes} language={language} />
+      )}
+
+      {/* 7. Charts Grid (Draggable) */}
       <ResponsiveGridLayout
         className="layout"
         layouts={layouts}
@@ -233,18 +391,20 @@ const Dashboard: React.FC<DashboardProps> = ({
         onLayoutChange={(currentLayout, allLayouts) => setLayouts(allLayouts)}
       >
         {analysis.charts.map((chart, index) => {
-          const hasData = filteredData.length > 0;
+          const hasData = chartData.length > 0;
           return (
              <div key={chart.id} className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden flex flex-col">
                 {hasData ? (
                    <ChartRenderer 
                      config={chart} 
-                     data={filteredData} 
+                     data={chartData} 
                      index={index} 
                      onDataClick={handleChartClick}
                      language={language}
-                     drillDown={drillDown}
-                     onClearDrillDown={() => setDrillDown(null)}
+                     drillPath={drillPath}
+                     onClearDrillDown={() => setDrillPath([])}
+                     columnTypes={columnTypes}
+                     onConfigChange={handleChartConfigChange}
                    />
                 ) : (
                    <div className="flex-1 flex flex-col items-center justify-center text-gray-400">
@@ -257,8 +417,14 @@ const Dashboard: React.FC<DashboardProps> = ({
         })}
       </ResponsiveGridLayout>
 
-      {/* 6. Data Preview Table (Now handles its own filtering UI) */}
-      <DataTable data={filteredData} language={language} itemsPerPage={10} />
+      {/* 8. Pivot Table */}
+      <PivotPanel data={chartData} language={language} columnTypes={columnTypes} onCreateChart={handleAddChart} />
+
+      {/* 9. Column Profiles (type overrides) */}
+      <ColumnProfilePanel data={data} columnTypes={columnTypes} onChange={onColumnTypesChange} language={language} />
+
+      {/* 10. Data Preview Table (adds the dashboard filters) */}
+      <DataTable data={filteredData} language={language} itemsPerPage={10} columnTypes={columnTypes} filters={filters} onFiltersChange={setFilters} />
 
     </div>
   );
@@ -1,22 +1,17 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { ExcelDataRow, Language } from '../types';
-import { ArrowUp, ArrowDown, ArrowUpDown, ChevronLeft, ChevronRight, Table as TableIcon, Check, ChevronDown, AlertCircle, Calendar, Filter, Plus, Trash2, X } from 'lucide-react';
-import { formatNumber, detectColumnType, parseDateSafe } from '../utils';
+import { ExcelDataRow, Language, ColumnTypeOverrides, FilterCriterion } from '../types';
+import { ArrowUp, ArrowDown, ArrowUpDown, ChevronLeft, ChevronRight, Table as TableIcon, Check, ChevronDown, AlertCircle, Calendar, Filter, Plus, Trash2 } from 'lucide-react';
+import { formatNumber, formatCurrency, formatPercent, detectColumnType, parseDateSafe, isProvenanceKey, getColumnLabel, getDistinctValues, ROW_KIND_KEY } from '../utils';
 import { translations } from '../i18n';
 
-interface FilterCriterion {
-  id: string;
-  column: string;
-  operator: 'contains' | 'is' | 'gt' | 'lt' | 'gte' | 'lte' | 'eq' | 'startsWith' | 'endsWith' | 'between';
-  value: string;
-  secondValue?: string;
-}
-
 interface DataTableProps {
-  data: ExcelDataRow[];
+  data: ExcelDataRow[];           // Rows with the dashboard filters already applied
   language: Language;
   itemsPerPage?: number;
+  columnTypes?: ColumnTypeOverrides;
+  filters: FilterCriterion[];
+  onFiltersChange: (filters: FilterCriterion[]) => void;
 }
 
 interface TableTheme {
@@ -39,15 +34,15 @@ const TABLE_THEMES: TableTheme[] = [
   { id: 'dark-gray', nameKey: 'styleDark', headerBg: 'bg-gray-800', headerText: 'text-white', rowOdd: 'bg-gray-100', rowEven: 'bg-white', hover: 'hover:bg-gray-200', border: 'border-gray-300', divider: 'border-gray-600' },
 ];
 
-const DataTable: React.FC<DataTableProps> = ({ data, language, itemsPerPage = 10 }) => {
+const DataTable: React.FC<DataTableProps> = ({ data, language, itemsPerPage = 10, columnTypes: columnTypeOverrides = {}, filters, onFiltersChange }) => {
   const [currentPage, setCurrentPage] = useState(1);
   const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' | null }>({ key: '', direction: null });
   const [activeThemeId, setActiveThemeId] = useState<string>('medium-blue');
   const [isStyleMenuOpen, setIsStyleMenuOpen] = useState(false);
   const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
+  const [showSourceColumns, setShowSourceColumns] = useState(false);
   
-  // Local Filter State
-  const [filters, setFilters] = useState<FilterCriterion[]>([]);
+  // New Filter Form State (the filters themselves belong to the dashboard)
   const [isFilterOpen, setIsFilterOpen] = useState(false);
   const [newFilterCol, setNewFilterCol] = useState('');
   const [newFilterOp, setNewFilterOp] = useState<FilterCriterion['operator']>('contains');
@@ -70,87 +65,30 @@ const DataTable: React.FC<DataTableProps> = ({ data, language, itemsPerPage = 10
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const columns = data.length > 0 ? Object.keys(data[0]) : [];
+  // Provenance columns are hidden unless requested, but always available as filters
+  const allColumns = useMemo(() => data.length > 0 ? Object.keys(data[0]).filter(col => col !== ROW_KIND_KEY) : [], [data]);
+  const hasSourceColumns = allColumns.some(isProvenanceKey);
+  const columns = showSourceColumns ? allColumns : allColumns.filter(col => !isProvenanceKey(col));
 
   // Cache column types
   const columnTypes = useMemo(() => {
     const types: Record<string, string> = {};
-    columns.forEach(col => {
-      types[col] = detectColumnType(data, col);
+    allColumns.forEach(col => {
+      types[col] = detectColumnType(data, col, columnTypeOverrides);
     });
     return types;
-  }, [data, columns]);
-
-  // --- Filtering Logic ---
-  const filteredData = useMemo(() => {
-    let res = data;
-    if (filters.length > 0) {
-        res = res.filter(row => {
-            return filters.every(f => {
-                const rowValue = row[f.column];
-                if (rowValue === null || rowValue === undefined) return false;
-                
-                const colType = columnTypes[f.column];
-                const valStr = String(rowValue).toLowerCase();
-                const filterVal = f.value.toLowerCase();
-
-                // Number comparison
-                if (colType === 'number') {
-                    const numRow = Number(rowValue);
-                    const numFilter = Number(f.value);
-                    if (isNaN(numRow) || isNaN(numFilter)) return false; 
-
-                    switch (f.operator) {
-                    case 'eq': return numRow === numFilter;
-                    case 'gt': return numRow > numFilter;
-                    case 'gte': return numRow >= numFilter;
-                    case 'lt': return numRow < numFilter;
-                    case 'lte': return numRow <= numFilter;
-                    default: return valStr.includes(filterVal);
-                    }
-                }
-                
-                // Date comparison
-                if (colType === 'date') {
-                    const dateRow = parseDateSafe(String(rowValue));
-                    if (f.operator === 'between' && f.secondValue) {
-                        const dateStart = parseDateSafe(f.value); 
-                        const dateEnd = parseDateSafe(f.secondValue) + 86399999; 
-                        if (!dateRow || !dateStart || !dateEnd) return false;
-                        return dateRow >= dateStart && dateRow <= dateEnd;
-                    }
-                    const dateFilter = parseDateSafe(f.value);
-                    if (!dateRow || !dateFilter) return false;
-
-                    switch (f.operator) {
-                        case 'eq': 
-                        case 'is':
-                        const dR = new Date(dateRow);
-                        const dF = new Date(dateFilter);
-                        return dR.getFullYear() === dF.getFullYear() && 
-                                dR.getMonth() === dF.getMonth() && 
-                                dR.getDate() === dF.getDate();
-                        case 'gt': return dateRow > dateFilter;
-                        case 'gte': return dateRow >= dateFilter;
-                        case 'lt': return dateRow < dateFilter;
-                        case 'lte': return dateRow <= dateFilter;
-                        default: return valStr.includes(filterVal);
-                    }
-                }
-
-                switch (f.operator) {
-                    case 'contains': return valStr.includes(filterVal);
-                    case 'is': return valStr === filterVal;
-                    case 'startsWith': return valStr.startsWith(filterVal);
-                    case 'endsWith': return valStr.endsWith(filterVal);
-                    default: return valStr.includes(filterVal);
-                }
-            });
-        });
-    }
-    return res;
-  }, [data, filters, columnTypes]);
-
+  }, [data, allColumns, columnTypeOverrides]);
+
+  // Percent columns holding fractions (0.125) are shown scaled to 12.5%
+  const percentScales = useMemo(() => {
+    const scales: Record<string, number> = {};
+    Object.entries(columnTypeOverrides).forEach(([col, type]) => {
+      if (type !== 'percent') return;
+      const values = data.slice(0, 100).map(row => Number(row[col])).filter(num => !isNaN(num));
+      scales[col] = values.length > 0 && values.every(num => Math.abs(num) <= 1) ? 100 : 1;
+    });
+    return scales;
+  }, [data, columnTypeOverrides]);
 
   const handleAddFilter = () => {
     setFilterError('');
@@ -166,33 +104,20 @@ const DataTable: React.FC<DataTableProps> = ({ data, language, itemsPerPage = 10
       value: newFilterVal,
       secondValue: newFilterVal2
     };
-    setFilters([...filters, newFilter]);
+    onFiltersChange([...filters, newFilter]);
     setNewFilterVal('');
     setNewFilterVal2('');
     setNewFilterCol('');
     setIsFilterOpen(false);
   };
 
-  const removeFilter = (id: string) => {
-    setFilters(filters.filter(f => f.id !== id));
-  };
 
-  const getUniqueValues = (column: string) => {
-    const values = new Set<string>();
-    data.forEach(row => {
-      const val = row[column];
-      if (val !== null && val !== undefined) values.add(String(val));
-    });
-    return Array.from(values).sort().slice(0, 50); 
-  };
-
-
-  // Sorting using Filtered Data
+  // Sorting
   const sortedData = useMemo(() => {
-    if (!sortConfig.key || !sortConfig.direction) return filteredData;
+    if (!sortConfig.key || !sortConfig.direction) return data;
     const colType = columnTypes[sortConfig.key];
 
-    return [...filteredData].sort((a, b) => {
+    return [...data].sort((a, b) => {
       const valA = a[sortConfig.key];
       const valB = b[sortConfig.key];
 
@@ -210,14 +135,14 @@ const DataTable: React.FC<DataTableProps> = ({ data, language, itemsPerPage = 10
       }
       return sortConfig.direction === 'asc' ? comparison : -comparison;
     });
-  }, [filteredData, sortConfig, columnTypes]);
+  }, [data, sortConfig, columnTypes]);
 
   // Pagination
   const totalPages = Math.ceil(sortedData.length / itemsPerPage);
   
   useEffect(() => {
     setCurrentPage(1);
-  }, [data, filters]);
+  }, [data]);
 
   const currentData = useMemo(() => {
     const start = (currentPage - 1) * itemsPerPage;
@@ -268,6 +193,11 @@ const DataTable: React.FC<DataTableProps> = ({ data, language, itemsPerPage = 10
     if (val === null || val === undefined) return '-';
     const strVal = String(val).trim();
 
+    const override = columnTypeOverrides[colName];
+    if (override === 'currency') return formatCurrency(val);
+    if (override === 'percent') return formatPercent(val, percentScales[colName]);
+    if (override === 'identifier' || override === 'category') return strVal;
+
     // Priority: Explicit "Date" or "日期" column names
     if (colName.toLowerCase().includes('date') || colName.includes('日期')) {
         // YYYYMMDD -> YYYY/MM/DD
@@ -336,7 +266,7 @@ const DataTable: React.FC<DataTableProps> = ({ data, language, itemsPerPage = 10
     }
     
     const type = columnTypes[newFilterCol];
-    const uniqueVals = getUniqueValues(newFilterCol);
+    const uniqueVals = getDistinctValues(data, newFilterCol);
     const isLowCardinality = uniqueVals.length > 0 && uniqueVals.length < 50;
     
     // Shared classes: White background, Dark text, Border, Rounded
@@ -398,6 +328,13 @@ const DataTable: React.FC<DataTableProps> = ({ data, language, itemsPerPage = 10
            </div>
            
            <div className="flex items-center gap-3">
+              {hasSourceColumns && (
+                <label className="flex items-center gap-1.5 text-xs text-gray-600 cursor-pointer select-none">
+                  <input type="checkbox" checked={showSourceColumns} onChange={(e) => setShowSourceColumns(e.target.checked)} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                  {t.showSourceColumns}
+                </label>
+              )}
+
               {/* Filter Toggle */}
               <button 
                 onClick={() => setIsFilterOpen(!isFilterOpen)} 
@@ -435,7 +372,7 @@ const DataTable: React.FC<DataTableProps> = ({ data, language, itemsPerPage = 10
         </div>
 
         {/* Filter Panel (Embedded) */}
-        {(isFilterOpen || filters.length > 0) && (
+        {isFilterOpen && (
             <div className="p-4 bg-blue-50/50 border-b border-blue-100 animate-slide-in">
                 <div className="flex flex-col md:flex-row gap-3 items-start md:items-end">
                     <div className="flex-1 w-full md:w-auto">
@@ -443,7 +380,7 @@ const DataTable: React.FC<DataTableProps> = ({ data, language, itemsPerPage = 10
                         <div className="relative">
                             <select value={newFilterCol} onChange={(e) => { setNewFilterCol(e.target.value); setNewFilterVal(''); }} className="w-full pl-3 pr-8 py-2 border rounded-lg text-sm bg-white text-gray-900 appearance-none focus:ring-2 focus:ring-blue-500">
                                 <option value="">{t.selectColumn}</option>
-                                {columns.map(col => <option key={col} value={col}>{col}</option>)}
+                                {allColumns.map(col => <option key={col} value={col}>{getColumnLabel(col, language)}</option>)}
                             </select>
                             <ChevronDown className="absolute right-3 top-2.5 w-4 h-4 text-gray-400 pointer-events-none" />
                         </div>
@@ -480,18 +417,7 @@ const DataTable: React.FC<DataTableProps> = ({ data, language, itemsPerPage = 10
                     <button onClick={handleAddFilter} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 font-medium shadow-sm"><Plus className="w-4 h-4" />{t.addFilter}</button>
                 </div>
                 {filterError && <div className="mt-2 text-xs text-red-500 flex items-center gap-1"><AlertCircle className="w-3 h-3" />{filterError}</div>}
-                
-                <div className="flex flex-wrap gap-2 mt-4">
-                    {filters.map((f, index) => (
-                    <span key={f.id} className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-sm bg-white border border-blue-200 text-blue-700 shadow-sm">
-                        <span className="font-semibold text-gray-600">{f.column}</span>
-                        <span className="text-blue-400 font-mono text-xs uppercase">{t.ops[f.operator] || f.operator}</span>
-                        <span className="font-bold">{f.value} {f.secondValue ? ` - ${f.secondValue}` : ''}</span>
-                        <button onClick={() => removeFilter(f.id)} className="hover:bg-red-50 hover:text-red-500 rounded-full p-0.5 transition-colors"><X className="w-3 h-3" /></button>
-                    </span>
-                    ))}
-                    {filters.length > 0 && <button onClick={() => setFilters([])} className="text-xs text-red-500 hover:text-red-700 underline ml-2">{t.clearAll}</button>}
-                </div>
+
             </div>
         )}
 
@@ -504,7 +430,7 @@ const DataTable: React.FC<DataTableProps> = ({ data, language, itemsPerPage = 10
                      return (
                       <th key={col} className={`px-4 py-3 font-semibold whitespace-nowrap relative group select-none ${activeTheme.divider ? `border-r ${activeTheme.divider} last:border-r-0` : ''}`} style={{ width: columnWidths[col] }}>
                         <div className="flex items-center justify-between gap-2 cursor-pointer" onClick={() => handleSort(col)}>
-                           <span>{col}</span>
+                           <span>{getColumnLabel(col, language)}</span>
                            <span className="opacity-50 group-hover:opacity-100 transition-opacity">
                              {isSorted ? (
                                sortConfig.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />
@@ -528,9 +454,10 @@ const DataTable: React.FC<DataTableProps> = ({ data, language, itemsPerPage = 10
                 {currentData.map((row, rowIndex) => (
                   <tr 
                     key={rowIndex} 
+                    title={row.__rowKind ? t.rowKinds[row.__rowKind] : undefined}
                     className={`
                       border-b ${activeTheme.border} 
-                      ${rowIndex % 2 === 0 ? activeTheme.rowEven : activeTheme.rowOdd}
+                      ${row.__rowKind ? 'bg-amber-50 font-semibold italic border-l-4 border-l-amber-400' : rowIndex % 2 === 0 ? activeTheme.rowEven : activeTheme.rowOdd}
                       ${activeTheme.hover} transition-colors
                     `}
                   >
@@ -4,6 +4,8 @@ import { Upload, FileSpreadsheet, Loader2, Files } from 'lucide-react';
 import { Language } from '../types';
 import { translations } from '../i18n';
 
+const ACCEPTED_EXTENSIONS = ['.xlsx', '.xls', '.ods', '.csv', '.tsv'];
+
 interface FileUploadProps {
   onFileUpload: (files: File[]) => void;
   isLoading: boolean;
@@ -45,10 +47,13 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, isLoading, langua
     const validTypes = [
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
       'application/vnd.ms-excel', // .xls
+      'application/vnd.oasis.opendocument.spreadsheet', // .ods
+      'text/csv', // .csv
+      'text/tab-separated-values', // .tsv
     ];
 
     const validFiles = files.filter(file => 
-      validTypes.includes(file.type) || file.name.endsWith('.xlsx') || file.name.endsWith('.xls')
+      validTypes.includes(file.type) || ACCEPTED_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext))
     );
 
     if (validFiles.length > 0) {
@@ -78,7 +83,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, isLoading, langua
           ref={inputRef}
           type="file"
           className="hidden"
-          accept=".xlsx,.xls"
+          accept={ACCEPTED_EXTENSIONS.join(',')}
           multiple
           onChange={handleChange}
         />
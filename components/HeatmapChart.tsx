@@ -0,0 +1,76 @@
+
+import React from 'react';
+import { HeatmapData, getColumnLabel } from '../utils';
+import { Language } from '../types';
+import { translations } from '../i18n';
+
+interface HeatmapChartProps {
+  heatmap: HeatmapData;
+  xAxisKey: string;
+  yAxisKey: string;
+  color: string;  // Palette color; cell opacity follows the value
+  formatValue: (value: number) => string;
+  onCellClick?: (xValue: string, yValue: string) => void;
+  language: Language;
+}
+
+// Cells at the minimum stay visible
+const MIN_CELL_OPACITY = 0.08;
+
+const withAlpha = (hex: string, alpha: number): string => {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha.toFixed(2)})`;
+};
+
+const HeatmapChart: React.FC<HeatmapChartProps> = ({ heatmap, xAxisKey, yAxisKey, color, formatValue, onCellClick, language }) => {
+  const t = translations[language];
+  const { xLabels, yLabels, values, min, max } = heatmap;
+
+  if (xLabels.length === 0 || yLabels.length === 0) {
+    return <div className="h-full flex items-center justify-center text-sm text-gray-400">{t.noData}</div>;
+  }
+
+  const intensity = (value: number) => max > min ? (value - min) / (max - min) : 1;
+
+  return (
+    <div className="h-full flex flex-col gap-2">
+      <div className="flex-1 overflow-auto">
+        <div
+          className="grid gap-0.5 min-h-full text-[10px]"
+          style={{ gridTemplateColumns: `minmax(60px, max-content) repeat(${xLabels.length}, minmax(28px, 1fr))`, gridTemplateRows: `repeat(${yLabels.length}, minmax(22px, 1fr)) auto` }}
+        >
+          {yLabels.map((yLabel, row) => (
+            <React.Fragment key={yLabel}>
+              <div className="pr-2 flex items-center justify-end text-gray-500 truncate" title={yLabel}>{yLabel}</div>
+              {xLabels.map((xLabel, column) => {
+                const value = values[row][column];
+                return (
+                  <div
+                    key={xLabel}
+                    onClick={value !== null && onCellClick ? () => onCellClick(xLabel, yLabel) : undefined}
+                    title={`${getColumnLabel(yAxisKey, language)}: ${yLabel}\n${getColumnLabel(xAxisKey, language)}: ${xLabel}\n${value !== null ? formatValue(value) : '-'}`}
+                    className={`rounded-sm ${value !== null && onCellClick ? 'cursor-pointer hover:ring-2 hover:ring-gray-400' : ''}`}
+                    style={{ backgroundColor: value !== null ? withAlpha(color, MIN_CELL_OPACITY + (1 - MIN_CELL_OPACITY) * intensity(value)) : '#f8fafc' }}
+                  />
+                );
+              })}
+            </React.Fragment>
+          ))}
+          <div />
+          {xLabels.map(xLabel => (
+            <div key={xLabel} className="pt-1 text-gray-500 truncate text-center" title={xLabel}>{xLabel}</div>
+          ))}
+        </div>
+      </div>
+
+      {/* Color scale */}
+      <div className="flex items-center justify-end gap-2 text-[10px] text-gray-500">
+        <span>{formatValue(min)}</span>
+        <div className="w-32 h-2 rounded-full" style={{ background: `linear-gradient(to right, ${withAlpha(color, MIN_CELL_OPACITY)}, ${withAlpha(color, 1)})` }} />
+        <span>{formatValue(max)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default HeatmapChart;
@@ -0,0 +1,77 @@
+
+import React, { useMemo } from 'react';
+import { Gauge, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { ColumnTypeOverrides, ExcelDataRow, KpiConfig, Language } from '../types';
+import { computeKpi, getDataColumns, formatNumber, formatCurrency, formatPercent } from '../utils';
+import { translations } from '../i18n';
+
+interface KpiCardsProps {
+  kpis: KpiConfig[];
+  data: ExcelDataRow[];
+  columnTypes: ColumnTypeOverrides;
+  language: Language;
+}
+
+// Changes smaller than this are shown as flat
+const FLAT_CHANGE = 0.0005;
+
+const KpiCards: React.FC<KpiCardsProps> = ({ kpis, data, columnTypes, language }) => {
+  const t = translations[language];
+
+  const results = useMemo(() => {
+    const columns = getDataColumns(data);
+    return kpis
+      .filter(kpi => columns.includes(kpi.column))
+      .map(kpi => {
+        // Rates stored as fractions (0.125) are shown scaled to 12.5%
+        const values = data.slice(0, 200).map(row => parseFloat(String(row[kpi.column]))).filter(num => !isNaN(num));
+        const percentScale = values.length > 0 && values.every(num => Math.abs(num) <= 1) ? 100 : 1;
+        return { kpi, percentScale, result: computeKpi(data, kpi, columnTypes) };
+      });
+  }, [kpis, data, columnTypes]);
+
+  if (results.length === 0) return null;
+
+  const isCount = (kpi: KpiConfig) => kpi.aggregation === 'count' || kpi.aggregation === 'countDistinct';
+
+  const formatValue = (kpi: KpiConfig, percentScale: number, value: number) => {
+    if (isCount(kpi)) return formatNumber(value);
+    if (kpi.format === 'currency') return formatCurrency(value);
+    if (kpi.format === 'percent') return formatPercent(value, percentScale);
+    return formatNumber(value);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Gauge className="w-5 h-5 text-blue-500" />
+        <h3 className="text-lg font-bold text-gray-800">{t.kpis}</h3>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {results.map(({ kpi, percentScale, result }) => {
+          const { change } = result;
+          const trend = change === undefined ? null : change > FLAT_CHANGE ? 'up' : change < -FLAT_CHANGE ? 'down' : 'flat';
+          const periodDetail = result.previous !== undefined
+            ? `${t.kpiCurrentPeriod}: ${formatValue(kpi, percentScale, result.current ?? 0)}\n${t.kpiPreviousPeriod}: ${formatValue(kpi, percentScale, result.previous)}`
+            : undefined;
+          return (
+            <div key={kpi.id} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-5">
+              <p className="text-sm font-medium text-gray-500 truncate" title={`${kpi.column} (${t.aggregations[kpi.aggregation]})`}>{kpi.label}</p>
+              <p className="mt-2 text-2xl font-bold text-gray-900 truncate">{formatValue(kpi, percentScale, result.value)}</p>
+              {result.period && (
+                <div className="mt-2 flex items-center gap-1.5 text-xs" title={periodDetail}>
+                  {trend === 'up' && <span className="flex items-center gap-0.5 font-bold text-green-600"><TrendingUp className="w-3.5 h-3.5" />{formatPercent(change, 100)}</span>}
+                  {trend === 'down' && <span className="flex items-center gap-0.5 font-bold text-red-600"><TrendingDown className="w-3.5 h-3.5" />{formatPercent(change, 100)}</span>}
+                  {trend === 'flat' && <span className="flex items-center gap-0.5 font-bold text-gray-500"><Minus className="w-3.5 h-3.5" />0%</span>}
+                  <span className="text-gray-400">{result.period} {trend ? t.kpiVsPrevious : `· ${t.kpiNoPrevious}`}</span>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default KpiCards;
@@ -0,0 +1,298 @@
+
+import React, { useMemo, useState } from 'react';
+import { Table2, ChevronDown, ChevronUp, Rows3, Columns3, Sigma, Filter, X, Hash, Calendar, Type, BarChart3, FileSpreadsheet } from 'lucide-react';
+import { AggregationType, ChartConfig, ColumnTypeOverrides, ExcelDataRow, Language, PivotConfig } from '../types';
+import { buildPivotTable, exportPivotToExcel, inferAggregation, detectColumnType, getDataColumns, getColumnLabel, formatNumber, formatCurrency } from '../utils';
+import { translations } from '../i18n';
+
+interface PivotPanelProps {
+  data: ExcelDataRow[];
+  language: Language;
+  columnTypes: ColumnTypeOverrides;
+  onCreateChart: (chart: ChartConfig) => void;
+}
+
+type PivotArea = 'rows' | 'columns' | 'values' | 'filters';
+
+// Distinct values listed in a filter's checklist
+const MAX_FILTER_OPTIONS = 200;
+
+const EMPTY_PIVOT: PivotConfig = { rows: [], columns: [], values: [], filters: [] };
+
+const removeField = (config: PivotConfig, column: string, area: PivotArea): PivotConfig => {
+  if (area === 'values') return { ...config, values: config.values.filter(v => v.column !== column) };
+  if (area === 'filters') return { ...config, filters: config.filters.filter(f => f.column !== column) };
+  return { ...config, [area]: config[area].filter(c => c !== column) };
+};
+
+/**
+ * The chart closest to a pivot: the first row field on the X axis, the first column
+ * field as split-by series, or further value fields as extra measures.
+ * Charts read the dashboard data, so pivot filters don't carry over.
+ */
+const toChartConfig = (config: PivotConfig, title: string, description: string): ChartConfig => {
+  const [firstValue, ...otherValues] = config.values;
+  const xAxisKey = config.rows[0] || config.columns[0];
+  const seriesKey = config.rows.length > 0 ? config.columns[0] : undefined;
+  return {
+    id: `pivot-${Date.now()}`,
+    title: `${title}: ${firstValue.column} / ${xAxisKey}`,
+    type: 'bar',
+    xAxisKey,
+    dataKey: firstValue.column,
+    aggregation: firstValue.aggregation,
+    seriesKey,
+    measures: seriesKey ? undefined : otherValues.map(v => v.column),
+    description,
+  };
+};
+
+const PivotPanel: React.FC<PivotPanelProps> = ({ data, language, columnTypes, onCreateChart }) => {
+  const t = translations[language];
+  const [isOpen, setIsOpen] = useState(false);
+  const [config, setConfig] = useState<PivotConfig>(EMPTY_PIVOT);
+  const [dragOver, setDragOver] = useState<PivotArea | null>(null);
+  const [openFilter, setOpenFilter] = useState<string | null>(null);
+
+  const fields = useMemo(() => {
+    const sample = data.slice(0, 50);
+    return getDataColumns(data).map(column => ({ column, type: detectColumnType(sample, column, columnTypes) }));
+  }, [data, columnTypes]);
+
+  const filterOptions = useMemo(() => {
+    if (!openFilter) return [];
+    return Array.from(new Set<string>(data.map(row => String(row[openFilter] ?? ''))))
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+      .slice(0, MAX_FILTER_OPTIONS);
+  }, [data, openFilter]);
+
+  const pivot = useMemo(() => config.values.length > 0 ? buildPivotTable(data, config, language) : null, [data, config, language]);
+
+  // A field sits in one area at a time (like Excel), so moving it removes it elsewhere
+  const addField = (column: string, area: PivotArea) => {
+    let next = (['rows', 'columns', 'values', 'filters'] as PivotArea[]).reduce((acc, a) => removeField(acc, column, a), config);
+    if (area === 'values') next = { ...next, values: [...next.values, { column, aggregation: inferAggregation(data, column, columnTypes) }] };
+    else if (area === 'filters') next = { ...next, filters: [...next.filters, { column, values: [] }] };
+    else next = { ...next, [area]: [...next[area], column] };
+    setConfig(next);
+  };
+
+  const handleDrop = (e: React.DragEvent, area: PivotArea) => {
+    e.preventDefault();
+    setDragOver(null);
+    const column = e.dataTransfer.getData('text/plain');
+    if (column) addField(column, area);
+  };
+
+  const setAggregation = (column: string, aggregation: AggregationType) => {
+    setConfig({ ...config, values: config.values.map(v => v.column === column ? { ...v, aggregation } : v) });
+  };
+
+  const toggleFilterValue = (column: string, value: string) => {
+    setConfig({
+      ...config,
+      filters: config.filters.map(f => f.column !== column ? f : {
+        ...f,
+        values: f.values.includes(value) ? f.values.filter(v => v !== value) : [...f.values, value],
+      }),
+    });
+  };
+
+  const formatCell = (value: number | null, column: string, aggregation: AggregationType) => {
+    if (value === null) return '';
+    const isCount = aggregation === 'count' || aggregation === 'countDistinct';
+    return columnTypes[column] === 'currency' && !isCount ? formatCurrency(value) : formatNumber(value);
+  };
+
+  const FieldIcon = ({ type }: { type: string }) => {
+    const Icon = type === 'number' ? Hash : type === 'date' ? Calendar : Type;
+    return <Icon className="w-3 h-3 text-gray-400 shrink-0" />;
+  };
+
+  const areas: { area: PivotArea; label: string; icon: React.ElementType }[] = [
+    { area: 'filters', label: t.pivotFilters, icon: Filter },
+    { area: 'columns', label: t.pivotColumns, icon: Columns3 },
+    { area: 'rows', label: t.pivotRows, icon: Rows3 },
+    { area: 'values', label: t.pivotValues, icon: Sigma },
+  ];
+
+  const renderAreaItems = (area: PivotArea) => {
+    const chipClass = 'flex items-center gap-1 bg-white border border-gray-200 rounded-md px-2 py-1 text-xs text-gray-700 cursor-move';
+    const dragProps = (column: string) => ({
+      draggable: true,
+      onDragStart: (e: React.DragEvent) => e.dataTransfer.setData('text/plain', column),
+    });
+    const removeButton = (column: string) => (
+      <button onClick={() => setConfig(removeField(config, column, area))} className="text-gray-400 hover:text-red-500 ml-auto"><X className="w-3 h-3" /></button>
+    );
+
+    if (area === 'values') {
+      return config.values.map(value => (
+        <div key={value.column} {...dragProps(value.column)} className={chipClass}>
+          <span className="truncate">{getColumnLabel(value.column, language)}</span>
+          <select
+            value={value.aggregation}
+            onChange={(e) => setAggregation(value.column, e.target.value as AggregationType)}
+            className="ml-1 border border-gray-200 rounded px-1 text-[10px] bg-white text-gray-600"
+          >
+            {(Object.keys(t.aggregations) as AggregationType[]).map(type => (
+              <option key={type} value={type}>{t.aggregations[type]}</option>
+            ))}
+          </select>
+          {removeButton(value.column)}
+        </div>
+      ));
+    }
+
+    if (area === 'filters') {
+      return config.filters.map(filter => (
+        <div key={filter.column} className="relative">
+          <div {...dragProps(filter.column)} className={chipClass}>
+            <button onClick={() => setOpenFilter(openFilter === filter.column ? null : filter.column)} className="flex items-center gap-1 truncate">
+              <span className="truncate">{getColumnLabel(filter.column, language)}</span>
+              <span className="text-gray-400">({filter.values.length > 0 ? filter.values.length : t.pivotAllValues})</span>
+              <ChevronDown className="w-3 h-3 text-gray-400" />
+            </button>
+            {removeButton(filter.column)}
+          </div>
+          {openFilter === filter.column && (
+            <div className="absolute left-0 top-full mt-1 w-56 max-h-60 overflow-y-auto bg-white rounded-lg shadow-xl border border-gray-100 p-2 z-30 space-y-1">
+              {filterOptions.map(option => (
+                <label key={option} className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                  <input type="checkbox" checked={filter.values.includes(option)} onChange={() => toggleFilterValue(filter.column, option)} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                  <span className="truncate">{option || '-'}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      ));
+    }
+
+    return config[area].map(column => (
+      <div key={column} {...dragProps(column)} className={chipClass}>
+        <span className="truncate">{getColumnLabel(column, language)}</span>
+        {removeButton(column)}
+      </div>
+    ));
+  };
+
+  const rowClass = (kind: string) =>
+    kind === 'total' ? 'bg-blue-50 font-bold text-gray-900' : kind === 'subtotal' ? 'bg-gray-50 font-semibold text-gray-800' : 'text-gray-700';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-4 flex items-center gap-2 text-left hover:bg-gray-50 transition-colors rounded-2xl"
+      >
+        <Table2 className="w-5 h-5 text-emerald-500" />
+        <h3 className="text-lg font-bold text-gray-800">{t.pivotTable}</h3>
+        <span className="ml-auto text-gray-400">{isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}</span>
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-xs text-gray-500">{t.pivotDesc}</p>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => onCreateChart(toChartConfig(config, t.pivotChartTitle, t.pivotChartDesc))}
+                disabled={!pivot || (config.rows.length === 0 && config.columns.length === 0)}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <BarChart3 className="w-3.5 h-3.5" /> {t.pivotToChart}
+              </button>
+              <button
+                onClick={() => pivot && exportPivotToExcel(pivot, `${t.sheetPivot}.xlsx`, language)}
+                disabled={!pivot}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <FileSpreadsheet className="w-3.5 h-3.5" /> {t.pivotExport}
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            {/* Field list */}
+            <div className="border border-gray-100 rounded-lg p-2">
+              <h4 className="text-xs font-bold text-gray-500 mb-2">{t.pivotFields}</h4>
+              <div className="max-h-64 overflow-y-auto space-y-1">
+                {fields.map(field => (
+                  <div
+                    key={field.column}
+                    draggable
+                    onDragStart={(e) => e.dataTransfer.setData('text/plain', field.column)}
+                    onDoubleClick={() => addField(field.column, field.type === 'number' ? 'values' : 'rows')}
+                    className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-700 rounded-md hover:bg-gray-50 cursor-move"
+                  >
+                    <FieldIcon type={field.type} />
+                    <span className="truncate">{getColumnLabel(field.column, language)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Drop areas */}
+            <div className="md:col-span-3 grid grid-cols-2 gap-3">
+              {areas.map(({ area, label, icon: Icon }) => (
+                <div
+                  key={area}
+                  onDragOver={(e) => { e.preventDefault(); setDragOver(area); }}
+                  onDragLeave={() => setDragOver(null)}
+                  onDrop={(e) => handleDrop(e, area)}
+                  className={`border-2 border-dashed rounded-lg p-2 min-h-[90px] transition-colors ${dragOver === area ? 'border-blue-400 bg-blue-50/50' : 'border-gray-200'}`}
+                >
+                  <h4 className="text-xs font-bold text-gray-500 mb-2 flex items-center gap-1"><Icon className="w-3.5 h-3.5" /> {label}</h4>
+                  <div className="flex flex-wrap gap-1.5">
+                    {renderAreaItems(area)}
+                    {(area === 'values' ? config.values : area === 'filters' ? config.filters : config[area]).length === 0 && (
+                      <span className="text-[11px] text-gray-300">{t.pivotDropHere}</span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Result */}
+          {pivot ? (
+            <div className="max-h-[480px] overflow-auto border border-gray-100 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs text-gray-500 sticky top-0">
+                  <tr>
+                    {pivot.rowHeaders.map((header, i) => (
+                      <th key={i} className="px-3 py-2 font-semibold whitespace-nowrap">{header && getColumnLabel(header, language)}</th>
+                    ))}
+                    {pivot.columns.map((column, i) => (
+                      <th key={i} className={`px-3 py-2 font-semibold text-right whitespace-nowrap ${column.isTotal ? 'bg-blue-50 text-blue-700' : ''}`}>{column.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {pivot.rows.map((row, i) => (
+                    <tr key={i} className={rowClass(row.kind)}>
+                      {row.labels.map((label, j) => (
+                        <td key={j} className="px-3 py-1.5 whitespace-nowrap">{label}</td>
+                      ))}
+                      {row.values.map((value, j) => (
+                        <td key={j} className={`px-3 py-1.5 text-right font-mono ${pivot.columns[j].isTotal ? 'bg-blue-50/60 font-semibold' : ''}`}>
+                          {formatCell(value, pivot.columns[j].value.column, pivot.columns[j].value.aggregation)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {pivot.truncated && <p className="px-3 py-2 text-xs text-amber-600 bg-amber-50">{t.pivotTruncated}</p>}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400 text-center py-6">{t.pivotEmpty}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PivotPanel;
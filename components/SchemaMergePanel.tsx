@@ -0,0 +1,141 @@
+
+import React, { useState } from 'react';
+import { GitMerge, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { ColumnMatchType, Language, SchemaMergePlan } from '../types';
+import { hasSchemaConflicts } from '../services/excelService';
+import { translations } from '../i18n';
+
+interface SchemaMergePanelProps {
+  plan: SchemaMergePlan;
+  isConfirmed: boolean;
+  onChange: (plan: SchemaMergePlan) => void;
+  onConfirm: () => void;
+  language: Language;
+}
+
+const MATCH_STYLES: Record<ColumnMatchType, string> = {
+  exact: 'border-gray-200 bg-white',
+  normalized: 'border-amber-300 bg-amber-50',
+  synonym: 'border-purple-300 bg-purple-50',
+  manual: 'border-blue-300 bg-blue-50',
+  missing: 'border-red-300 bg-red-50',
+};
+
+const SchemaMergePanel: React.FC<SchemaMergePanelProps> = ({ plan, isConfirmed, onChange, onConfirm, language }) => {
+  const t = translations[language];
+  const [showAll, setShowAll] = useState(false);
+
+  const hasConflicts = hasSchemaConflicts(plan);
+  const names = plan.columns.map(col => col.name.trim());
+  const hasDuplicateNames = names.some((name, i) => !name || names.indexOf(name) !== i);
+
+  const visibleColumns = plan.columns
+    .map((col, index) => ({ col, index }))
+    .filter(({ col }) => showAll || col.matchTypes.some(type => type !== 'exact'));
+
+  const renameColumn = (index: number, name: string) => {
+    onChange({ ...plan, columns: plan.columns.map((col, i) => i === index ? { ...col, name } : col) });
+  };
+
+  const setSource = (index: number, fileIndex: number, source: string) => {
+    const columns = plan.columns.map((col, i) => {
+      if (i !== index) return col;
+      const sources = [...col.sources];
+      const matchTypes = [...col.matchTypes];
+      sources[fileIndex] = source || null;
+      matchTypes[fileIndex] = source ? 'manual' : 'missing';
+      return { ...col, sources, matchTypes };
+    });
+    onChange({ ...plan, columns });
+  };
+
+  return (
+    <div className="border border-purple-200 rounded-lg overflow-hidden">
+      <div className="bg-purple-50 px-3 py-2 flex items-center gap-2 text-sm font-bold text-purple-800 border-b border-purple-100">
+        <GitMerge className="w-4 h-4" />
+        {t.schemaMergeTitle}
+        <label className="ml-auto flex items-center gap-1 text-xs font-normal text-gray-600 cursor-pointer">
+          <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} className="rounded border-gray-300" />
+          {t.showAllColumns}
+        </label>
+      </div>
+
+      {!hasConflicts ? (
+        <p className="px-3 py-3 text-sm text-green-700 flex items-center gap-2">
+          <CheckCircle2 className="w-4 h-4" /> {t.schemaIdentical}
+        </p>
+      ) : (
+        <p className="px-3 pt-3 text-xs text-amber-700 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 shrink-0" /> {t.schemaConflictsDesc}
+        </p>
+      )}
+
+      {visibleColumns.length > 0 && (
+        <div className="max-h-64 overflow-auto p-3">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pb-2 pr-2 font-semibold">{t.unifiedColumn}</th>
+                {plan.fileNames.map((name, i) => (
+                  <th key={i} className="pb-2 pr-2 font-semibold truncate max-w-[140px]" title={name}>{name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {visibleColumns.map(({ col, index }) => (
+                <tr key={index}>
+                  <td className="pr-2 py-1">
+                    <input
+                      value={col.name}
+                      onChange={(e) => renameColumn(index, e.target.value)}
+                      className="w-full px-2 py-1 border border-gray-300 rounded bg-white text-gray-900"
+                    />
+                  </td>
+                  {plan.fileHeaders.map((headers, fileIndex) => (
+                    <td key={fileIndex} className="pr-2 py-1">
+                      <select
+                        value={col.sources[fileIndex] ?? ''}
+                        onChange={(e) => setSource(index, fileIndex, e.target.value)}
+                        className={`w-full px-1 py-1 border rounded text-gray-800 ${MATCH_STYLES[col.matchTypes[fileIndex]]}`}
+                        title={t.matchTypes[col.matchTypes[fileIndex]]}
+                      >
+                        <option value="">{t.noSourceColumn}</option>
+                        {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                      </select>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex flex-wrap gap-3 mt-3 text-[10px] text-gray-500">
+            {(['normalized', 'synonym', 'manual', 'missing'] as ColumnMatchType[]).map(type => (
+              <span key={type} className="flex items-center gap-1">
+                <span className={`w-3 h-3 rounded border ${MATCH_STYLES[type]}`} />
+                {t.matchTypes[type]}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {hasConflicts && (
+        <div className="px-3 pb-3 flex items-center gap-3">
+          {hasDuplicateNames && <span className="text-xs text-red-500">{t.duplicateColumnNames}</span>}
+          <button
+            onClick={onConfirm}
+            disabled={isConfirmed || hasDuplicateNames}
+            className={`ml-auto px-3 py-1.5 rounded-lg text-xs font-bold transition-colors flex items-center gap-1 ${
+              isConfirmed ? 'bg-green-100 text-green-700' : 'bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50'
+            }`}
+          >
+            <CheckCircle2 className="w-3.5 h-3.5" />
+            {isConfirmed ? t.schemaConfirmed : t.confirmSchema}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SchemaMergePanel;
@@ -0,0 +1,159 @@
+
+import React, { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { FileSpreadsheet, Star, CheckSquare, Square, Pencil, RotateCcw } from 'lucide-react';
+import { Language, SheetInfo, SheetSelection, WorkbookModel } from '../types';
+import { MAX_HEADER_ROWS, flattenHeaderRows, getHeaderKeys } from '../services/excelService';
+import { translations } from '../i18n';
+
+interface SheetPickerProps {
+  model: WorkbookModel;
+  selections: SheetSelection[];
+  onChange: (selections: SheetSelection[]) => void;
+  language: Language;
+}
+
+const SheetPicker: React.FC<SheetPickerProps> = ({ model, selections, onChange, language }) => {
+  const t = translations[language];
+  const [editingSheet, setEditingSheet] = useState<string | null>(null);
+
+  const toggleSheet = (sheet: SheetInfo) => {
+    if (selections.some(s => s.sheetName === sheet.name)) {
+      onChange(selections.filter(s => s.sheetName !== sheet.name));
+    } else {
+      // Keep workbook order so rows are merged sheet by sheet
+      const next = [...selections, { sheetName: sheet.name, headerRowIndex: sheet.headerRowIndex, headerRowCount: sheet.headerRowCount }];
+      const order = model.sheets.map(s => s.name);
+      onChange(next.sort((a, b) => order.indexOf(a.sheetName) - order.indexOf(b.sheetName)));
+    }
+  };
+
+  const updateSelection = (sheetName: string, changes: Partial<SheetSelection>) => {
+    onChange(selections.map(s => s.sheetName === sheetName ? { ...s, ...changes } : s));
+  };
+
+  // Moving the header band invalidates names edited for the previous one
+  const setHeaderBand = (sheetName: string, headerRowIndex: number, headerRowCount: number) => {
+    updateSelection(sheetName, { headerRowIndex, headerRowCount, headerNames: undefined });
+  };
+
+  const getFlattenedNames = (sheet: SheetInfo, selection: SheetSelection): string[] =>
+    selection.headerNames ||
+    flattenHeaderRows(sheet.previewRows.slice(selection.headerRowIndex, selection.headerRowIndex + selection.headerRowCount), sheet.columnCount);
+
+  const renameColumn = (sheet: SheetInfo, selection: SheetSelection, column: number, name: string) => {
+    const headerNames = [...getFlattenedNames(sheet, selection)];
+    headerNames[column] = name;
+    updateSelection(sheet.name, { headerNames });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <div className="bg-gray-50 px-3 py-2 flex items-center gap-2 text-sm font-medium text-gray-700 border-b border-gray-200">
+        <FileSpreadsheet className="w-4 h-4 text-green-600" />
+        <span className="truncate">{model.fileName}</span>
+        <span className="ml-auto text-xs text-gray-400">{selections.length}/{model.sheets.length}</span>
+      </div>
+      <div className="divide-y divide-gray-100 max-h-72 overflow-y-auto">
+        {model.sheets.map(sheet => {
+          const selection = selections.find(s => s.sheetName === sheet.name);
+          const headerRowIndex = selection ? selection.headerRowIndex : sheet.headerRowIndex;
+          const headerRowCount = selection ? selection.headerRowCount : sheet.headerRowCount;
+          const rowCount = Math.max(0, sheet.totalRows - headerRowIndex - headerRowCount);
+          const headerPreview = selection
+            ? getHeaderKeys(sheet, selection).filter(key => !key.startsWith('__EMPTY')).slice(0, 6).join(', ')
+            : '';
+          const isEmpty = sheet.totalRows === 0;
+          const isEditing = !!selection && editingSheet === sheet.name;
+
+          return (
+            <div key={sheet.name} className={`px-3 py-2 text-sm ${selection ? 'bg-blue-50/50' : 'bg-white'}`}>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => toggleSheet(sheet)}
+                  disabled={isEmpty}
+                  className="flex items-center gap-2 flex-1 min-w-0 text-left disabled:opacity-40"
+                >
+                  {selection ? <CheckSquare className="w-4 h-4 text-blue-600 shrink-0" /> : <Square className="w-4 h-4 text-gray-400 shrink-0" />}
+                  <span className={`truncate ${selection ? 'font-medium text-blue-800' : 'text-gray-700'}`}>{sheet.name}</span>
+                  {sheet.name === model.recommendedSheet && (
+                    <span className="inline-flex items-center gap-0.5 text-[10px] bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded-full shrink-0">
+                      <Star className="w-3 h-3" /> {t.recommendedSheet}
+                    </span>
+                  )}
+                </button>
+                <span className="text-xs text-gray-400 shrink-0">
+                  {rowCount.toLocaleString()} {t.rowsLabel} · {sheet.columnCount} {t.colsLabel}
+                </span>
+                {selection && sheet.totalRows > 0 && (
+                  <>
+                    <label className="flex items-center gap-1 text-xs text-gray-500 shrink-0">
+                      {t.headerRow}
+                      <select
+                        value={headerRowIndex}
+                        onChange={(e) => setHeaderBand(sheet.name, Number(e.target.value), headerRowCount)}
+                        className="border border-gray-300 rounded px-1 py-0.5 bg-white text-gray-800"
+                      >
+                        {sheet.previewRows.map((_, i) => (
+                          <option key={i} value={i}>{i + 1}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-1 text-xs text-gray-500 shrink-0">
+                      {t.headerRowCount}
+                      <select
+                        value={headerRowCount}
+                        onChange={(e) => setHeaderBand(sheet.name, headerRowIndex, Number(e.target.value))}
+                        className="border border-gray-300 rounded px-1 py-0.5 bg-white text-gray-800"
+                      >
+                        {Array.from({ length: MAX_HEADER_ROWS }, (_, i) => (
+                          <option key={i} value={i + 1}>{i + 1}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </>
+                )}
+              </div>
+              {selection && headerPreview && (
+                <div className="flex items-center gap-2 mt-1 pl-6">
+                  <p className="text-xs text-gray-400 truncate flex-1" title={headerPreview}>{headerPreview}</p>
+                  <button
+                    onClick={() => setEditingSheet(isEditing ? null : sheet.name)}
+                    className={`text-xs flex items-center gap-1 shrink-0 ${isEditing ? 'text-blue-700 font-medium' : 'text-gray-500 hover:text-blue-600'}`}
+                  >
+                    <Pencil className="w-3 h-3" /> {t.editColumnNames}
+                  </button>
+                </div>
+              )}
+              {isEditing && selection && (
+                <div className="mt-2 pl-6 space-y-1">
+                  <div className="grid grid-cols-2 gap-1">
+                    {getFlattenedNames(sheet, selection).map((name, column) => (
+                      <input
+                        key={column}
+                        value={name}
+                        onChange={(e) => renameColumn(sheet, selection, column, e.target.value)}
+                        placeholder={XLSX.utils.encode_col(column)}
+                        className="w-full px-2 py-1 text-xs border border-gray-300 rounded bg-white text-gray-900"
+                      />
+                    ))}
+                  </div>
+                  {selection.headerNames && (
+                    <button
+                      onClick={() => updateSelection(sheet.name, { headerNames: undefined })}
+                      className="text-xs text-gray-500 hover:text-blue-600 flex items-center gap-1"
+                    >
+                      <RotateCcw className="w-3 h-3" /> {t.resetColumnNames}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SheetPicker;
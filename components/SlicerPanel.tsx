@@ -0,0 +1,188 @@
+
+import React, { useMemo, useState } from 'react';
+import { ListFilter, CalendarRange, Bookmark, Save, Trash2, X } from 'lucide-react';
+import { ColumnTypeOverrides, DashboardView, ExcelDataRow, Language, SlicerState } from '../types';
+import { detectColumnType, getDataColumns, getDistinctValues, getColumnLabel } from '../utils';
+import { translations } from '../i18n';
+
+interface SlicerPanelProps {
+  data: ExcelDataRow[];
+  slicers: SlicerState;
+  onChange: (slicers: SlicerState) => void;
+  columnTypes: ColumnTypeOverrides;
+  language: Language;
+  views: DashboardView[];
+  activeViewId: string;
+  onSaveView: (name: string) => void;
+  onApplyView: (view: DashboardView) => void;
+  onDeleteView: (id: string) => void;
+}
+
+// Columns with more distinct values than this get no multi-select slicer
+const MAX_SLICER_VALUES = 50;
+
+const SlicerPanel: React.FC<SlicerPanelProps> = ({
+  data, slicers, onChange, columnTypes, language, views, activeViewId, onSaveView, onApplyView, onDeleteView
+}) => {
+  const t = translations[language];
+  const [viewName, setViewName] = useState('');
+
+  const { dateColumns, categoryColumns } = useMemo(() => {
+    const sample = data.slice(0, 200);
+    const columns = getDataColumns(data).map(column => ({ column, type: detectColumnType(sample, column, columnTypes) }));
+    return {
+      dateColumns: columns.filter(c => c.type === 'date').map(c => c.column),
+      categoryColumns: columns
+        .filter(c => c.type === 'string' && getDistinctValues(data, c.column, MAX_SLICER_VALUES + 1).length <= MAX_SLICER_VALUES)
+        .map(c => c.column),
+    };
+  }, [data, columnTypes]);
+
+  const slicerValues = useMemo(() => {
+    const values: Record<string, string[]> = {};
+    slicers.categories.forEach(slicer => {
+      values[slicer.column] = getDistinctValues(data, slicer.column, MAX_SLICER_VALUES);
+    });
+    return values;
+  }, [data, slicers.categories]);
+
+  const dateColumn = slicers.dateColumn || dateColumns[0] || '';
+
+  const updateCategory = (column: string, values: string[]) => {
+    onChange({ ...slicers, categories: slicers.categories.map(s => s.column === column ? { ...s, values } : s) });
+  };
+
+  const toggleValue = (column: string, value: string) => {
+    const selected = slicers.categories.find(s => s.column === column)?.values || [];
+    updateCategory(column, selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+  };
+
+  const handleSaveView = () => {
+    if (!viewName.trim()) return;
+    onSaveView(viewName.trim());
+    setViewName('');
+  };
+
+  if (dateColumns.length === 0 && categoryColumns.length === 0 && views.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <ListFilter className="w-5 h-5 text-blue-500" />
+          <h3 className="text-lg font-bold text-gray-800">{t.slicers}</h3>
+        </div>
+
+        {/* Saved Views */}
+        <div className="flex items-center gap-2 ml-auto text-xs">
+          <Bookmark className="w-4 h-4 text-gray-400" />
+          <select
+            value={activeViewId}
+            onChange={(e) => { const view = views.find(v => v.id === e.target.value); if (view) onApplyView(view); }}
+            className="border border-gray-300 rounded-lg px-2 py-1.5 bg-white text-gray-700"
+          >
+            <option value="">{t.savedViews}</option>
+            {views.map(view => <option key={view.id} value={view.id}>{view.name}</option>)}
+          </select>
+          {activeViewId && (
+            <button onClick={() => onDeleteView(activeViewId)} className="p-1.5 text-gray-400 hover:text-red-500" title={t.deleteView}>
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          <input
+            value={viewName}
+            onChange={(e) => setViewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveView()}
+            placeholder={t.viewName}
+            className="border border-gray-300 rounded-lg px-2 py-1.5 bg-white text-gray-900 w-36"
+          />
+          <button
+            onClick={handleSaveView}
+            disabled={!viewName.trim()}
+            className="flex items-center gap-1 px-3 py-1.5 font-medium border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Save className="w-3.5 h-3.5" /> {t.saveView}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 items-start">
+        {/* Date Range */}
+        {dateColumns.length > 0 && (
+          <div className="border border-gray-200 rounded-lg p-2 text-xs space-y-1.5">
+            <div className="flex items-center gap-1.5 font-bold text-gray-500">
+              <CalendarRange className="w-3.5 h-3.5" />
+              <select
+                value={dateColumn}
+                onChange={(e) => onChange({ ...slicers, dateColumn: e.target.value })}
+                className="border border-gray-200 rounded px-1 py-0.5 bg-white text-gray-700 font-normal"
+              >
+                {dateColumns.map(column => <option key={column} value={column}>{getColumnLabel(column, language)}</option>)}
+              </select>
+              {(slicers.dateFrom || slicers.dateTo) && (
+                <button onClick={() => onChange({ ...slicers, dateFrom: undefined, dateTo: undefined })} className="ml-auto text-gray-400 hover:text-red-500" title={t.clearAll}>
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              <input
+                type="date"
+                value={slicers.dateFrom || ''}
+                onChange={(e) => onChange({ ...slicers, dateColumn, dateFrom: e.target.value || undefined })}
+                className="border border-gray-200 rounded px-1 py-0.5 bg-white text-gray-900"
+                title={t.startDate}
+              />
+              <span className="text-gray-400">-</span>
+              <input
+                type="date"
+                value={slicers.dateTo || ''}
+                onChange={(e) => onChange({ ...slicers, dateColumn, dateTo: e.target.value || undefined })}
+                className="border border-gray-200 rounded px-1 py-0.5 bg-white text-gray-900"
+                title={t.endDate}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Category Slicers */}
+        {slicers.categories.map(slicer => (
+          <div key={slicer.column} className="border border-gray-200 rounded-lg p-2 text-xs w-44">
+            <div className="flex items-center gap-1 font-bold text-gray-500 mb-1">
+              <span className="truncate flex-1" title={slicer.column}>{getColumnLabel(slicer.column, language)}</span>
+              {slicer.values.length > 0 && (
+                <button onClick={() => updateCategory(slicer.column, [])} className="text-[10px] font-normal text-blue-600 hover:underline">{t.clearAll}</button>
+              )}
+              <button onClick={() => onChange({ ...slicers, categories: slicers.categories.filter(s => s.column !== slicer.column) })} className="text-gray-400 hover:text-red-500">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+            <div className="max-h-32 overflow-y-auto space-y-0.5">
+              {(slicerValues[slicer.column] || []).map(value => (
+                <label key={value} className="flex items-center gap-1.5 text-gray-600 cursor-pointer">
+                  <input type="checkbox" checked={slicer.values.includes(value)} onChange={() => toggleValue(slicer.column, value)} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                  <span className="truncate">{value}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {categoryColumns.some(column => !slicers.categories.some(s => s.column === column)) && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && onChange({ ...slicers, categories: [...slicers.categories, { column: e.target.value, values: [] }] })}
+            className="border border-dashed border-gray-300 rounded-lg px-2 py-1.5 text-xs bg-white text-gray-600"
+          >
+            <option value="">{t.addSlicer}</option>
+            {categoryColumns.filter(column => !slicers.categories.some(s => s.column === column)).map(column => (
+              <option key={column} value={column}>{getColumnLabel(column, language)}</option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SlicerPanel;
@@ -0,0 +1,754 @@
+
+import { ExcelDataRow, ProvenanceKey, RowKind, ColumnType, ColumnTypeOverrides, TimeGrain, FilterCriterion, SlicerState } from './types';
+
+// Data helpers without DOM dependencies, shared by the UI and the parser worker.
+
+export const PROVENANCE_KEYS: ProvenanceKey[] = ['__sourceFile', '__sourceSheet', '__sourceRow'];
+
+export const isProvenanceKey = (key: string): key is ProvenanceKey => (PROVENANCE_KEYS as string[]).includes(key);
+
+export const ROW_KIND_KEY = '__rowKind';
+
+/**
+ * Analysis columns of a dataset (all keys of the first row except provenance fields and the row kind marker)
+ */
+export const getDataColumns = (data: ExcelDataRow[]): string[] =>
+  data.length > 0 ? Object.keys(data[0]).filter(key => !isProvenanceKey(key) && key !== ROW_KIND_KEY) : [];
+
+/**
+ * Copy of a row without provenance fields and the row kind marker
+ */
+export const stripProvenance = (row: ExcelDataRow): ExcelDataRow => {
+  const { __sourceFile, __sourceSheet, __sourceRow, __rowKind, ...rest } = row;
+  return rest;
+};
+
+// --- Subtotal / Total Rows ---
+
+// Labels of summary rows, as a whole cell, a prefix ("小計: A客戶") or a suffix after a
+// separator ("A客戶 小計", "A客戶-小計"; not "Subtotal Kit" or "Cost total")
+const buildLabelPattern = (words: string[]) => {
+  const alternatives = words.join('|');
+  return new RegExp(`^(${alternatives})(\\s*[:：].*)?$|[\\s:：\\-_/(（](${alternatives})[)）]?$`, 'i');
+};
+const SUBTOTAL_LABEL = buildLabelPattern(['小計', '小计', 'subtotal', 'sub-total', 'sub total', 'cộng nhóm']);
+const TOTAL_LABEL = buildLabelPattern(['合計', '合计', '總計', '总计', 'grand total', 'total', 'tổng cộng', 'tổng']);
+
+// Summary labels are only looked for in the text columns left of the first number column
+// (the row labels of a report), not in notes or descriptions further right
+const MAX_LABEL_COLUMNS = 3;
+
+// Relative tolerance when comparing a row against the sum of the rows above it
+const SUM_TOLERANCE = 0.0005;
+
+const getLabelKind = (row: ExcelDataRow, columns: string[]): RowKind | null => {
+  for (const col of columns) {
+    const val = row[col];
+    if (typeof val !== 'string') continue;
+    const label = val.trim();
+    if (SUBTOTAL_LABEL.test(label)) return 'subtotal';
+    if (TOTAL_LABEL.test(label)) return 'total';
+  }
+  return null;
+};
+
+const isFilled = (val: unknown) => val !== null && val !== undefined && String(val).trim() !== '';
+
+const matchesSums = (row: ExcelDataRow, numericCols: string[], sums: Record<string, number>): boolean => {
+  let compared = 0;
+  for (const col of numericCols) {
+    const val = row[col];
+    if (typeof val !== 'number') continue;
+    const expected = sums[col] || 0;
+    if (Math.abs(val - expected) > Math.max(Math.abs(expected) * SUM_TOLERANCE, 0.005)) return false;
+    if (expected !== 0) compared++;
+  }
+  return compared > 0;
+};
+
+/**
+ * Flags subtotal and grand-total rows so they aren't counted twice.
+ * A row is flagged when one of its leading label cells is a summary label ("小計", "合計", "Total"),
+ * or when it leaves blank a column every detail row above it fills and its numbers equal
+ * the sum of the detail rows since the previous subtotal (subtotal) or since the start (total).
+ * Rows are checked per source sheet, in sheet order. Flagged rows are marked in place.
+ */
+export const markSummaryRows = (data: ExcelDataRow[]): ExcelDataRow[] => {
+  const columns = getDataColumns(data);
+  const numericCols = columns.filter(col => detectColumnType(data, col) === 'number');
+  const firstNumeric = columns.findIndex(col => numericCols.includes(col));
+  const labelCols = (firstNumeric > 0 ? columns.slice(0, firstNumeric) : columns.filter(col => !numericCols.includes(col)))
+    .slice(0, MAX_LABEL_COLUMNS);
+
+  let currentSource: string | undefined;
+  let blockSize = 0;
+  let blockFilledCols: string[] = [];  // Columns every detail row of the block fills
+  let blockSums: Record<string, number> = {};
+  let totalSums: Record<string, number> = {};
+  let detailCount = 0;
+
+  const resetBlock = () => {
+    blockSize = 0;
+    blockFilledCols = columns;
+    blockSums = {};
+  };
+
+  data.forEach(row => {
+    const source = `${row.__sourceFile ?? ''}\u0000${row.__sourceSheet ?? ''}`;
+    if (source !== currentSource) {
+      currentSource = source;
+      resetBlock();
+      totalSums = {};
+      detailCount = 0;
+    }
+
+    let kind = getLabelKind(row, labelCols);
+    if (!kind && blockSize >= 2) {
+      // Summary rows leave the identifying columns blank
+      const leavesDetailBlank = blockFilledCols.some(col => !isFilled(row[col]));
+      if (leavesDetailBlank) {
+        if (detailCount > blockSize && matchesSums(row, numericCols, totalSums)) kind = 'total';
+        else if (matchesSums(row, numericCols, blockSums)) kind = 'subtotal';
+      }
+    }
+
+    if (kind) {
+      row.__rowKind = kind;
+      resetBlock();
+      if (kind === 'total') {
+        totalSums = {};
+        detailCount = 0;
+      }
+      return;
+    }
+
+    blockSize++;
+    blockFilledCols = blockFilledCols.filter(col => isFilled(row[col]));
+    detailCount++;
+    numericCols.forEach(col => {
+      const val = row[col];
+      if (typeof val !== 'number') return;
+      blockSums[col] = (blockSums[col] || 0) + val;
+      totalSums[col] = (totalSums[col] || 0) + val;
+    });
+  });
+
+  return data;
+};
+
+export const isSummaryRow = (row: ExcelDataRow): boolean => !!row.__rowKind;
+
+/**
+ * Rows used for charts, aggregation and AI sampling: summary rows are left out unless included explicitly.
+ */
+export const getDetailRows = (data: ExcelDataRow[], includeSummaryRows = false): ExcelDataRow[] =>
+  includeSummaryRows ? data : data.filter(row => !isSummaryRow(row));
+
+const DATE_REGEX_8DIGIT = /^\d{8}$/;
+const DATE_REGEX_6DIGIT = /^(19|20)\d{2}(0[1-9]|1[0-2])$/; // YYYYMM
+
+// Identifier keywords. Latin ones must be a whole word ("Item No", "ItemNo") so "Normal Qty" or
+// "Economy Price" don't match; CJK ones match anywhere in the header.
+const IDENTIFIER_WORDS = ['id', 'no', 'code'];
+const IDENTIFIER_CJK = ['單號', '編號', '料號', '工號', '客代', '廠商', '品號', '規格', '代碼'];
+// Single-word headers of ERP exports ("ITEMNO", "PONO", "CUSTID") join a known stem and the keyword;
+// other words ending in no/id/code ("LIQUID", "CASINO", "paid") are not identifiers
+const IDENTIFIER_STEMS = [
+  'item', 'part', 'prod', 'product', 'sku', 'mat', 'material', 'lot', 'batch', 'serial',
+  'cust', 'customer', 'vend', 'vendor', 'supp', 'supplier', 'emp', 'user', 'dept', 'wh', 'acct', 'account',
+  'order', 'doc', 'po', 'so', 'mo', 'wo', 'inv', 'invoice', 'ship', 'bill', 'ref', 'tax',
+];
+const IDENTIFIER_SUFFIX = new RegExp(`^(${IDENTIFIER_STEMS.join('|')})_?(no|id|code)$`, 'i');
+
+/**
+ * Lowercase words of a header, split on punctuation, spaces and camelCase ("ItemNo" -> item, no)
+ */
+const getHeaderWords = (column: string): string[] =>
+  column.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+/**
+ * Whether a header names an identifier column (document numbers, item codes) by keyword
+ */
+export const isIdentifierColumn = (column: string): boolean =>
+  getHeaderWords(column).some(word => IDENTIFIER_WORDS.includes(word)) ||
+  IDENTIFIER_SUFFIX.test(column.trim()) ||
+  IDENTIFIER_CJK.some(kw => column.includes(kw));
+
+const BASE_COLUMN_TYPES: Record<ColumnType, 'date' | 'number' | 'string'> = {
+  date: 'date',
+  number: 'number',
+  currency: 'number',
+  percent: 'number',
+  identifier: 'string',
+  category: 'string',
+};
+
+/**
+ * Helper to detect column type. A user override for the column wins over detection.
+ */
+export const detectColumnType = (data: ExcelDataRow[], column: string, overrides?: ColumnTypeOverrides): 'date' | 'number' | 'string' => {
+  const override = overrides?.[column];
+  if (override) return BASE_COLUMN_TYPES[override];
+
+  // 1. Force String for specific identifiers
+  if (isIdentifierColumn(column)) {
+    return 'string';
+  }
+
+  let numberCount = 0;
+  let dateCount = 0;
+  let sampleCount = 0;
+  const maxSamples = 100;
+
+  for (const row of data) {
+    if (sampleCount >= maxSamples) break;
+    const val = row[column];
+    if (val === null || val === undefined || val === '') continue;
+    
+    sampleCount++;
+    const strVal = String(val).trim();
+    
+    // Strict number check
+    if (!isNaN(Number(val)) && strVal !== '') {
+      numberCount++;
+    }
+    
+    // Date Check
+    if (DATE_REGEX_8DIGIT.test(strVal) || DATE_REGEX_6DIGIT.test(strVal)) {
+       dateCount++;
+    } 
+    else if (!isNaN(Date.parse(strVal)) && (strVal.includes('-') || strVal.includes('/'))) {
+       dateCount++;
+    }
+  }
+
+  if (sampleCount > 0 && dateCount / sampleCount > 0.8) return 'date';
+  if (sampleCount > 0 && numberCount / sampleCount > 0.9) return 'number';
+  return 'string';
+};
+
+/**
+ * Semantic type of a column: the user's override, or one inferred from detection
+ * (text columns named like identifiers become 'identifier', other text 'category').
+ */
+export const getColumnKind = (data: ExcelDataRow[], column: string, overrides?: ColumnTypeOverrides): ColumnType => {
+  const override = overrides?.[column];
+  if (override) return override;
+
+  const detected = detectColumnType(data, column);
+  if (detected !== 'string') return detected;
+  return isIdentifierColumn(column) ? 'identifier' : 'category';
+};
+
+/**
+ * Stable identifier of a dataset's schema (a hash of its sorted column names),
+ * so column settings saved for one export apply to the next export of the same report.
+ */
+export const getSchemaFingerprint = (columns: string[]): string => {
+  const text = columns.map(col => col.trim()).sort().join('\u0001');
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `${columns.length}-${(hash >>> 0).toString(16)}`;
+};
+
+/**
+ * Safe date parser
+ */
+export const parseDateSafe = (value: string): number => {
+    if (!value) return 0;
+    const strVal = String(value).trim();
+    
+    // Handle YYYYMMDD
+    if (DATE_REGEX_8DIGIT.test(strVal)) {
+      const y = parseInt(strVal.substring(0, 4));
+      const m = parseInt(strVal.substring(4, 6)) - 1;
+      const d = parseInt(strVal.substring(6, 8));
+      return new Date(y, m, d).getTime();
+    }
+    
+    // Handle YYYYMM (Assume 1st of month)
+    if (DATE_REGEX_6DIGIT.test(strVal)) {
+      const y = parseInt(strVal.substring(0, 4));
+      const m = parseInt(strVal.substring(4, 6)) - 1;
+      return new Date(y, m, 1).getTime();
+    }
+
+    return new Date(strVal).getTime();
+};
+
+// --- Time Grains ---
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+// Fiscal years are named after the calendar year they end in (FY2025 = Apr 2024 - Mar 2025)
+const getFiscalYear = (date: Date, fiscalYearStart: number): number =>
+  fiscalYearStart > 1 && date.getMonth() + 1 >= fiscalYearStart ? date.getFullYear() + 1 : date.getFullYear();
+
+/**
+ * First day of the period containing the date. Weeks start on Monday (ISO 8601).
+ */
+export const getPeriodStart = (date: Date, grain: TimeGrain, fiscalYearStart = 1): Date => {
+  const y = date.getFullYear();
+  const m = date.getMonth();
+  switch (grain) {
+    case 'day': return new Date(y, m, date.getDate());
+    case 'week': return new Date(y, m, date.getDate() - ((date.getDay() + 6) % 7));
+    case 'month': return new Date(y, m, 1);
+    case 'quarter': return new Date(y, m - (m % 3), 1);
+    case 'year': return new Date(y, 0, 1);
+    case 'fiscalYear': {
+      const fiscalYear = getFiscalYear(date, fiscalYearStart);
+      return new Date(fiscalYearStart > 1 ? fiscalYear - 1 : fiscalYear, fiscalYearStart - 1, 1);
+    }
+  }
+};
+
+/**
+ * Start of the following period, for walking a range period by period.
+ */
+export const getNextPeriodStart = (start: Date, grain: TimeGrain): Date => {
+  const y = start.getFullYear();
+  const m = start.getMonth();
+  switch (grain) {
+    case 'day': return new Date(y, m, start.getDate() + 1);
+    case 'week': return new Date(y, m, start.getDate() + 7);
+    case 'month': return new Date(y, m + 1, 1);
+    case 'quarter': return new Date(y, m + 3, 1);
+    case 'year':
+    case 'fiscalYear': return new Date(y + 1, m, 1);
+  }
+};
+
+/**
+ * Label of the period containing the date. Labels of one grain sort chronologically as strings.
+ */
+export const getPeriodKey = (date: Date, grain: TimeGrain, fiscalYearStart = 1): string => {
+  const y = date.getFullYear();
+  switch (grain) {
+    case 'day': return `${y}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+    case 'week': {
+      // ISO week: the week belongs to the year of its Thursday
+      const thursday = new Date(y, date.getMonth(), date.getDate() + 3 - ((date.getDay() + 6) % 7));
+      const dayOfYear = Math.round((thursday.getTime() - new Date(thursday.getFullYear(), 0, 1).getTime()) / 86400000);
+      const week = Math.floor(dayOfYear / 7) + 1;
+      return `${thursday.getFullYear()}-W${pad2(week)}`;
+    }
+    case 'month': return `${y}-${pad2(date.getMonth() + 1)}`;
+    case 'quarter': return `${y}-Q${Math.floor(date.getMonth() / 3) + 1}`;
+    case 'year': return String(y);
+    case 'fiscalYear': return `FY${getFiscalYear(date, fiscalYearStart)}`;
+  }
+};
+
+// --- Filters ---
+
+const matchesFilter = (row: ExcelDataRow, f: FilterCriterion, colType: 'date' | 'number' | 'string'): boolean => {
+  const rowValue = row[f.column];
+  if (rowValue === null || rowValue === undefined) return false;
+
+  const valStr = String(rowValue).toLowerCase();
+  const filterVal = f.value.toLowerCase();
+
+  // Number comparison
+  if (colType === 'number') {
+    const numRow = Number(rowValue);
+    const numFilter = Number(f.value);
+    if (isNaN(numRow) || isNaN(numFilter)) return false;
+
+    switch (f.operator) {
+      case 'eq': return numRow === numFilter;
+      case 'gt': return numRow > numFilter;
+      case 'gte': return numRow >= numFilter;
+      case 'lt': return numRow < numFilter;
+      case 'lte': return numRow <= numFilter;
+      default: return valStr.includes(filterVal);
+    }
+  }
+
+  // Date comparison
+  if (colType === 'date') {
+    const dateRow = parseDateSafe(String(rowValue));
+    if (f.operator === 'between' && f.secondValue) {
+      const dateStart = parseDateSafe(f.value);
+      const dateEnd = parseDateSafe(f.secondValue) + 86399999;
+      if (!dateRow || !dateStart || !dateEnd) return false;
+      return dateRow >= dateStart && dateRow <= dateEnd;
+    }
+    const dateFilter = parseDateSafe(f.value);
+    if (!dateRow || !dateFilter) return false;
+
+    switch (f.operator) {
+      case 'eq':
+      case 'is': {
+        const dR = new Date(dateRow);
+        const dF = new Date(dateFilter);
+        return dR.getFullYear() === dF.getFullYear() &&
+          dR.getMonth() === dF.getMonth() &&
+          dR.getDate() === dF.getDate();
+      }
+      case 'gt': return dateRow > dateFilter;
+      case 'gte': return dateRow >= dateFilter;
+      case 'lt': return dateRow < dateFilter;
+      case 'lte': return dateRow <= dateFilter;
+      default: return valStr.includes(filterVal);
+    }
+  }
+
+  switch (f.operator) {
+    case 'contains': return valStr.includes(filterVal);
+    case 'is': return valStr === filterVal;
+    case 'startsWith': return valStr.startsWith(filterVal);
+    case 'endsWith': return valStr.endsWith(filterVal);
+    default: return valStr.includes(filterVal);
+  }
+};
+
+/**
+ * Rows matching every filter. Conditions compare by column type, so "gt" is numeric
+ * on number columns and chronological on date columns.
+ */
+export const applyFilters = (data: ExcelDataRow[], filters: FilterCriterion[], overrides?: ColumnTypeOverrides): ExcelDataRow[] => {
+  if (filters.length === 0) return data;
+  const colTypes: Record<string, 'date' | 'number' | 'string'> = {};
+  filters.forEach(f => {
+    if (!colTypes[f.column]) colTypes[f.column] = detectColumnType(data, f.column, overrides);
+  });
+  return data.filter(row => filters.every(f => matchesFilter(row, f, colTypes[f.column])));
+};
+
+/**
+ * Sorted distinct values of a column, for value pickers. Empty cells are skipped.
+ */
+export const getDistinctValues = (data: ExcelDataRow[], column: string, limit = 50): string[] => {
+  const values = new Set<string>();
+  data.forEach(row => {
+    const val = row[column];
+    if (val !== null && val !== undefined) values.add(String(val));
+  });
+  return Array.from(values).sort().slice(0, limit);
+};
+
+/**
+ * Local midnight of a date picker value ("yyyy-mm-dd"), or of the following day. Date pickers give
+ * calendar days, while new Date("yyyy-mm-dd") would be UTC midnight and shift the range by the time zone.
+ */
+const getLocalDayStart = (value: string, nextDay = false): number => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return parseDateSafe(value) + (nextDay ? 86400000 : 0);
+  return new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]) + (nextDay ? 1 : 0)).getTime();
+};
+
+/**
+ * Rows inside the slicers' date range and selected category values.
+ */
+export const applySlicers = (data: ExcelDataRow[], slicers: SlicerState): ExcelDataRow[] => {
+  const { dateColumn, dateFrom, dateTo } = slicers;
+  const from = dateColumn && dateFrom ? getLocalDayStart(dateFrom) : 0;
+  // End of the last local day
+  const to = dateColumn && dateTo ? getLocalDayStart(dateTo, true) - 1 : 0;
+  const categories = slicers.categories.filter(slicer => slicer.values.length > 0);
+  if (!from && !to && categories.length === 0) return data;
+
+  return data.filter(row => {
+    if (dateColumn && (from || to)) {
+      const time = parseDateSafe(String(row[dateColumn] ?? ''));
+      if (!time || (from && time < from) || (to && time > to)) return false;
+    }
+    return categories.every(slicer => slicer.values.includes(String(row[slicer.column] ?? '')));
+  });
+};
+
+// --- Dataset Profile ---
+
+// Per-column figures kept in the profile
+const PROFILE_TOP_VALUES = 5;
+const PROFILE_MAX_MONTHS = 36;
+const PROFILE_MAX_TOTAL_COLUMNS = 6;
+
+export interface ColumnStats {
+  column: string;
+  type: ColumnType;
+  nullRatio: number;   // Share of empty cells, 0-1
+  distinct: number;
+  min?: number | string;  // Numbers, or yyyy-mm-dd for dates
+  max?: number | string;
+  mean?: number;
+  sum?: number;
+  topValues?: { value: string; count: number }[];  // Category columns only
+}
+
+export interface MonthlyTotals {
+  dateColumn: string;
+  months: { period: string; rows: number; totals: Record<string, number> }[];  // Latest months, oldest first
+}
+
+export interface DatasetProfile {
+  rowCount: number;
+  columns: ColumnStats[];
+  monthlyTotals: MonthlyTotals[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: ExcelDataRow[string]): number => {
+  if (value === null || value === undefined || String(value).trim() === '') return NaN;
+  return parseFloat(String(value));
+};
+
+/**
+ * Statistics over every row, so an AI summary about totals, trends and outliers
+ * isn't limited to the rows of a sample.
+ */
+export const buildDatasetProfile = (data: ExcelDataRow[], overrides?: ColumnTypeOverrides): DatasetProfile => {
+  const columns = getDataColumns(data);
+  const kinds: Record<string, ColumnType> = {};
+  columns.forEach(column => { kinds[column] = getColumnKind(data, column, overrides); });
+
+  const stats = columns.map((column): ColumnStats => {
+    const type = kinds[column];
+    const counts = new Map<string, number>();
+    let filled = 0;
+    let sum = 0;
+    let numeric = 0;
+    let min = Infinity;
+    let max = -Infinity;
+
+    data.forEach(row => {
+      const val = row[column];
+      if (val === null || val === undefined || String(val).trim() === '') return;
+      filled++;
+      const key = String(val);
+      counts.set(key, (counts.get(key) || 0) + 1);
+
+      const num = type === 'date' ? parseDateSafe(key) : toNumber(val);
+      if (isNaN(num) || (type === 'date' && num === 0)) return;
+      numeric++;
+      sum += num;
+      if (num < min) min = num;
+      if (num > max) max = num;
+    });
+
+    const result: ColumnStats = {
+      column,
+      type,
+      nullRatio: data.length > 0 ? round2(1 - filled / data.length) : 0,
+      distinct: counts.size,
+    };
+    if (numeric > 0 && type === 'date') {
+      result.min = getPeriodKey(new Date(min), 'day');
+      result.max = getPeriodKey(new Date(max), 'day');
+    } else if (numeric > 0 && BASE_COLUMN_TYPES[type] === 'number') {
+      result.min = min;
+      result.max = max;
+      result.mean = round2(sum / numeric);
+      if (type !== 'percent') result.sum = round2(sum);
+    }
+    if (type === 'category') {
+      result.topValues = Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, PROFILE_TOP_VALUES)
+        .map(([value, count]) => ({ value, count }));
+    }
+    return result;
+  });
+
+  // Additive columns (amounts, quantities) totalled per month of each date column
+  const totalColumns = columns.filter(column => kinds[column] === 'number' || kinds[column] === 'currency').slice(0, PROFILE_MAX_TOTAL_COLUMNS);
+  const monthlyTotals = columns.filter(column => kinds[column] === 'date').map((dateColumn): MonthlyTotals => {
+    const months = new Map<string, { rows: number; totals: Record<string, number> }>();
+    data.forEach(row => {
+      const time = parseDateSafe(String(row[dateColumn] ?? ''));
+      if (!time || isNaN(time)) return;
+      const period = getPeriodKey(new Date(time), 'month');
+      let month = months.get(period);
+      if (!month) {
+        month = { rows: 0, totals: Object.fromEntries(totalColumns.map(column => [column, 0])) };
+        months.set(period, month);
+      }
+      month.rows++;
+      totalColumns.forEach(column => {
+        const num = toNumber(row[column]);
+        if (!isNaN(num)) month!.totals[column] += num;
+      });
+    });
+    return {
+      dateColumn,
+      months: Array.from(months.keys()).sort().slice(-PROFILE_MAX_MONTHS).map(period => {
+        const month = months.get(period)!;
+        return { period, rows: month.rows, totals: Object.fromEntries(Object.entries(month.totals).map(([column, total]) => [column, round2(total)])) };
+      }),
+    };
+  });
+
+  return { rowCount: data.length, columns: stats, monthlyTotals };
+};
+
+// Strata need a category column with at least this many and at most this many values
+const MIN_STRATA = 2;
+const MAX_STRATA = 20;
+
+/**
+ * Sample rows spread over the whole dataset: rows are grouped by the mostly filled category
+ * column with the most values (2-20), and each group gives rows in proportion to its size
+ * (at least one), taken at even steps so early and late rows are both represented.
+ * Returns the rows and the column used for the groups, if any.
+ */
+export const getStratifiedSample = (
+  data: ExcelDataRow[],
+  size: number,
+  overrides?: ColumnTypeOverrides
+): { rows: ExcelDataRow[]; strataColumn?: string } => {
+  if (data.length <= size) return { rows: data };
+
+  const pickEvenly = (rows: ExcelDataRow[], count: number) =>
+    Array.from({ length: count }, (_, i) => rows[Math.floor((i * rows.length) / count)]);
+
+  let strataColumn: string | undefined;
+  let groups: ExcelDataRow[][] = [];
+  getDataColumns(data)
+    .filter(column => getColumnKind(data, column, overrides) === 'category')
+    .forEach(column => {
+      const byValue = new Map<string, ExcelDataRow[]>();
+      let tooMany = false;
+      for (const row of data) {
+        const key = String(row[column] ?? '');
+        const group = byValue.get(key);
+        if (group) group.push(row);
+        else if (byValue.size >= MAX_STRATA) { tooMany = true; break; }
+        else byValue.set(key, [row]);
+      }
+      const blankRows = byValue.get('')?.length || 0;
+      if (!tooMany && byValue.size >= MIN_STRATA && blankRows < data.length / 2 && byValue.size > groups.length) {
+        strataColumn = column;
+        groups = Array.from(byValue.values());
+      }
+    });
+
+  if (!strataColumn) return { rows: pickEvenly(data, size) };
+
+  // Largest remainder: one row per group, the rest in proportion to group size
+  const spare = Math.max(0, size - groups.length);
+  const shares = groups.map(group => (group.length / data.length) * spare);
+  const counts = shares.map(share => Math.floor(share));
+  let remaining = spare - counts.reduce((sum, count) => sum + count, 0);
+  shares
+    .map((share, i) => ({ i, rest: share - counts[i] }))
+    .sort((a, b) => b.rest - a.rest)
+    .forEach(({ i }) => { if (remaining > 0) { counts[i]++; remaining--; } });
+
+  const rows = groups.flatMap((group, i) => pickEvenly(group, Math.min(group.length, counts[i] + 1)));
+  return { rows, strataColumn };
+};
+
+/**
+ * Clean and Enrich Data
+ * 1. Fix invalid dates (e.g., 0025 -> 2025)
+ * 2. Recalculate date differences if relevant columns exist
+ */
+export const cleanAndEnrichData = (data: ExcelDataRow[]): ExcelDataRow[] => {
+  if (!data || data.length === 0) return data;
+  
+  const headers = getDataColumns(data);
+  
+  // Detect date columns
+  const dateCols = headers.filter(h => detectColumnType(data, h) === 'date' || h.includes('日') || h.includes('Date'));
+  
+  // Specific columns for relative fixing
+  const docDateCol = headers.find(h => h.includes('單據日期') || h.includes('DocDate') || h.includes('OrderDate') || h.includes('開工日') || h.includes('開單日'));
+
+  // Detect Difference Columns (e.g. 差異天數)
+  const diffCol = headers.find(h => h.includes('差異') || h.includes('Diff'));
+  // Detect associated Date Columns for recalculation
+  // e.g. 預計(Planned) vs 實際(Actual) / 交貨(Delivery)
+  const plannedCol = headers.find(h => h.includes('預') || h.includes('Plan') || h.includes('Target'));
+  const actualCol = headers.find(h => (h.includes('實') || h.includes('Actual') || h.includes('交')) && h !== diffCol && h !== plannedCol);
+
+  return data.map(row => {
+    const newRow = { ...row };
+    let rowChanged = false;
+    let validDocYear = '';
+
+    // If we have a document date column, extract a valid year from it first
+    if (docDateCol) {
+        const val = String(newRow[docDateCol] || '').trim();
+        if (val.length === 8 && val.startsWith('20')) {
+            validDocYear = val.substring(0, 4);
+        } else if (val.includes('/') || val.includes('-')) {
+             const parts = val.split(/[-/]/);
+             if (parts[0].length === 4 && parts[0].startsWith('20')) {
+                 validDocYear = parts[0];
+             }
+        }
+    }
+
+    // 1. Fix Dates
+    dateCols.forEach(col => {
+      let val = String(newRow[col] || '').trim();
+      if (!val) return;
+
+      // Logic A: Fix 0025 -> 2025 (8 digit)
+      if (val.length === 8 && (val.startsWith('00') || val.startsWith('02'))) {
+         const yearPrefix = val.substring(0, 2);
+         if (yearPrefix === '00' || yearPrefix === '02') {
+             // If we have a valid doc year, prefer that for correction (e.g. 0202 -> 2025)
+             if (validDocYear) {
+                 newRow[col] = validDocYear + val.substring(4);
+             } else {
+                 // Fallback: Assume 20xx
+                 newRow[col] = '20' + val.substring(2);
+             }
+             rowChanged = true;
+         }
+      }
+      // Logic B: Fix 0025/MM/DD or 0202/MM/DD formats
+      else if ((val.startsWith('00') || val.startsWith('02')) && (val.includes('/') || val.includes('-'))) {
+         const parts = val.split(/[-/]/);
+         const yearPart = parts[0];
+         
+         if (yearPart.length === 4 && (yearPart.startsWith('00') || yearPart.startsWith('02'))) {
+             if (validDocYear) {
+                 parts[0] = validDocYear;
+             } else {
+                 parts[0] = '20' + yearPart.substring(2);
+             }
+             newRow[col] = parts.join('/');
+             rowChanged = true;
+         }
+      }
+      // Logic C: Planned < Doc Date fix (if column is likely planned date)
+      else if (docDateCol && col === plannedCol && validDocYear) {
+           const pDate = parseDateSafe(val);
+           const dDate = parseDateSafe(String(newRow[docDateCol]));
+           
+           // If planned date is earlier than doc date (and significant difference > 60 days, implying year error)
+           // We assume year typo
+           if (pDate > 0 && dDate > 0 && pDate < dDate) {
+               // Reconstruct date with doc year
+               // This handles 2023/12/31 vs 2024/01/01 typo cases
+               // We format it back to YYYY/MM/DD
+               const pObj = new Date(pDate);
+               const newDateStr = `${validDocYear}/${String(pObj.getMonth()+1).padStart(2,'0')}/${String(pObj.getDate()).padStart(2,'0')}`;
+               newRow[col] = newDateStr;
+               rowChanged = true;
+           }
+      }
+    });
+
+    // 2. Recalculate Difference if dates changed
+    if (rowChanged && diffCol && plannedCol && actualCol) {
+        const d1 = parseDateSafe(String(newRow[plannedCol]));
+        const d2 = parseDateSafe(String(newRow[actualCol]));
+        
+        if (d1 && d2) {
+            // Diff in Days
+            const diffTime = d2 - d1; 
+            const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
+            newRow[diffCol] = diffDays;
+        }
+    }
+
+    return newRow;
+  });
+};
@@ -7,8 +7,8 @@ export const translations = {
     poweredBy: 'Powered by Gemini 2.5 Flash',
     dropFile: '拖放多個 Excel 檔案至此',
     selectFile: '選擇檔案',
-    uploadDesc: '支援 Digiwin Workflow ERP 匯出的報表 (.xlsx, .xls)。可一次上傳多個檔案，系統將自動合併並分析。',
-    invalidFile: '請上傳有效的 Excel 檔案 (.xlsx, .xls)',
+    uploadDesc: '支援 Digiwin Workflow ERP 匯出的報表 (.xlsx, .xls, .ods, .csv, .tsv)。可一次上傳多個檔案，系統將自動合併並分析。',
+    invalidFile: '請上傳有效的 Excel 或 CSV 檔案 (.xlsx, .xls, .ods, .csv, .tsv)',
     parsing: '正在解析並合併資料...',
     wait: '這可能需要幾秒鐘',
     stepParsing: '讀取與合併 Excel 資料結構...',
@@ -32,6 +32,10 @@ export const translations = {
     drillDownActive: '正在鑽取檢視',
     drillDownDesc: '所有圖表與資料表僅顯示符合此條件的數據。',
     clearDrillDown: '清除鑽取',
+    drillUp: '返回上一層',
+    allData: '全部資料',
+    drillLevels: '鑽取層級',
+    addDrillLevel: '+ 新增下一層欄位...',
     column: '欄位',
     selectColumn: '選擇欄位...',
     condition: '條件',
@@ -46,6 +50,18 @@ export const translations = {
     addFilter: '加入篩選',
     clearAll: '清除全部',
     noFilters: '目前沒有使用任何篩選條件',
+    activeFilters: '目前篩選條件',
+    slicers: '交叉篩選器',
+    addSlicer: '+ 新增篩選器...',
+    savedViews: '已儲存的檢視...',
+    viewName: '檢視名稱',
+    saveView: '儲存檢視',
+    deleteView: '刪除此檢視',
+    kpis: '關鍵指標',
+    kpiVsPrevious: '較上期',
+    kpiNoPrevious: '無上期資料可比較',
+    kpiCurrentPeriod: '本期',
+    kpiPreviousPeriod: '上期',
     aiSummary: 'AI 洞察摘要',
     updating: '(正在更新分析...)',
     insightNote: '* 注意：AI 洞察摘要是基於原始完整數據生成的，可能不完全反映當前篩選後的結果。',
@@ -62,6 +78,92 @@ export const translations = {
     adjustFontSize: '調整軸字體大小',
     adjustHeight: '調整圖表高度',
     autoFit: '雙擊自動調整欄寬',
+    showSourceColumns: '顯示來源欄位',
+    includeSummaryRows: '包含小計/合計列',
+    summaryRowsDesc: '偵測到的小計與合計列預設不納入圖表、彙總與 AI 分析，以免重複計算',
+    rowKinds: {
+      subtotal: '小計列',
+      total: '合計列',
+    },
+    pivotTable: '樞紐分析表',
+    pivotDesc: '將欄位拖曳到列、欄、值或篩選區域，即可即時彙總資料。',
+    pivotFields: '欄位',
+    pivotRows: '列',
+    pivotColumns: '欄',
+    pivotValues: '值',
+    pivotFilters: '篩選',
+    pivotDropHere: '拖曳欄位至此',
+    pivotEmpty: '請至少將一個欄位拖曳到值區域',
+    pivotSubtotal: '小計',
+    pivotGrandTotal: '總計',
+    pivotTruncated: '列數過多，僅顯示前面的列，總計仍包含所有資料',
+    pivotAllValues: '全部',
+    pivotToChart: '建立圖表',
+    pivotChartTitle: '樞紐分析',
+    pivotChartDesc: '由樞紐分析表建立 (不含樞紐篩選條件)',
+    pivotExport: '匯出 Excel',
+    sheetPivot: '樞紐分析表',
+    columnProfile: '欄位設定檔',
+    columnProfileDesc: '自動偵測的欄位型別可在此覆寫，設定會依資料欄位結構保存，下次匯入相同報表時自動套用。',
+    columnTypeOverridden: '項已覆寫',
+    resetColumnTypes: '全部還原為自動偵測',
+    columnTypeLabel: '型別',
+    fillRate: '填寫率',
+    distinctValues: '不重複值',
+    sampleValues: '範例值',
+    autoDetected: '自動',
+    columnTypes: {
+      date: '日期',
+      number: '數值',
+      currency: '金額',
+      percent: '百分比',
+      identifier: '識別碼',
+      category: '分類',
+    },
+    chartDimension: '分組維度',
+    defaultDimension: '預設 (AI 建議)',
+    chartLimit: '顯示筆數',
+    showAllItems: '全部',
+    showOthers: '其餘合併為「其他」',
+    showAllPeriods: '顯示所有期間',
+    othersBucket: '其他',
+    timeGrain: '時間粒度',
+    rawDates: '原始日期',
+    fiscalYearStart: '會計年度起始月',
+    timeGrains: {
+      day: '日',
+      week: '週 (ISO)',
+      month: '月',
+      quarter: '季',
+      fiscalYear: '會計年度',
+      year: '年',
+    },
+    cumulativePercent: '累計百分比',
+    runningTotal: '累計值',
+    waterfallEnd: '期末',
+    seriesMenu: '數列',
+    secondaryAxis: '右軸 (折線)',
+    splitBy: '依欄位拆分數列',
+    noSplit: '不拆分',
+    extraMeasures: '其他數值欄位',
+    heatmapRows: '列 (Y 軸)',
+    heatmapRowsHint: '請在數列選單中選擇熱力圖的列欄位',
+    stackedSeries: '堆疊顯示',
+    aggregation: '彙總方式',
+    aggregations: {
+      sum: '加總',
+      count: '計數',
+      countDistinct: '不重複計數',
+      average: '平均',
+      min: '最小值',
+      max: '最大值',
+      median: '中位數',
+    },
+    provenance: {
+      __sourceFile: '來源檔案',
+      __sourceSheet: '來源工作表',
+      __sourceRow: '原始列號'
+    },
     chatTitle: 'AI 分析助手',
     chatPlaceholder: '請輸入您想分析的內容...',
     chatTyping: '思考並繪製圖表中...',
@@ -116,7 +218,12 @@ export const translations = {
       area: '區域圖',
       pie: '圓餅圖',
       scatter: '散佈圖',
-      radar: '雷達圖'
+      radar: '雷達圖',
+      combo: '組合圖 (雙軸)',
+      pareto: '柏拉圖',
+      waterfall: '瀑布圖',
+      histogram: '直方圖',
+      heatmap: '熱力圖'
     },
     // Config
     configManagerTitle: '分析策略管理',
@@ -145,12 +252,73 @@ export const translations = {
     lblAnalysisPrompt: '分析指令 (Prompt)',
     lblSelectTemplates: '選擇模板...',
     lblNoTemplate: '未連結模板',
+    tabProvider: 'AI 模型來源',
+    providerDesc: '選擇 Google Gemini，或公司內部伺服器上任何相容 OpenAI API 的模型 (例如 Ollama、vLLM)。',
+    providerOpenAI: 'OpenAI 相容端點 (Ollama / vLLM)',
+    lblProvider: '服務提供者',
+    lblModel: '模型名稱',
+    lblBaseUrl: '端點網址 (Base URL)',
+    lblApiKey: 'API 金鑰',
+    apiKeyGeminiHint: '留空則使用 .env.local 的 GEMINI_API_KEY',
+    apiKeyOptional: '本機伺服器通常不需要',
+    apiKeyLocalOnly: '金鑰只保存在此瀏覽器，不會寫入 EXCEL_AI.json。',
+    providerSaved: 'AI 模型設定已儲存',
+    offlineBadge: '離線分析',
+    offlineBadgeHint: '未連線 AI 模型，此分析依欄位規則在本機產生',
+    offlineSummary: '目前無法使用 AI 模型，此儀表板由本機規則分析產生：依欄位名稱判斷 ERP 模組並挑選圖表，洞察中的數字皆由完整資料計算。',
+    offlineDetectedModule: '判斷模組',
+    erpModules: {
+      sales: '銷售 (COP)',
+      inventory: '庫存 (INV)',
+      production: '生產 (MO/SFC)',
+      purchase: '採購 (PUR)',
+      general: '一般資料'
+    },
+    offlineChartTrend: '每月趨勢',
+    offlineChartRanking: '排名前 10 名',
+    offlineChartShare: '各類別占比',
+    offlineChartDistribution: '數值分佈',
+    offlineChartCompare: '實際與目標比較',
+    insightTotal: '總量',
+    insightTopContributor: '最大貢獻者',
+    insightTrend: '最新趨勢',
+    insightAverage: '平均表現',
+    insightLowest: '最需改善',
+    insightBelowSafety: '低於安全存量',
+    insightDataQuality: '資料完整度 (空白比例偏高的欄位)',
     // Staging
     filesSelected: '已選擇檔案',
     startAnalysis: '開始智能分析',
     reselect: '重新選擇',
     singleFileContext: '單一檔案分析模式：請選擇分析模板',
     multiFileContext: '多檔案合併模式：請選擇分析群組 (Role)',
+    selectSheets: '選擇要分析的工作表',
+    recommendedSheet: '建議',
+    headerRow: '標題列',
+    headerRowCount: '列數',
+    editColumnNames: '調整欄位名稱',
+    resetColumnNames: '還原自動名稱',
+    rowsLabel: '列',
+    colsLabel: '欄',
+    inspectingFiles: '正在讀取工作表結構...',
+    noSheetSelected: '請為每個檔案至少選擇一個工作表',
+    schemaMergeTitle: '欄位對應與合併結構',
+    showAllColumns: '顯示全部欄位',
+    schemaIdentical: '所有檔案的欄位結構一致，可直接合併。',
+    schemaConflictsDesc: '部分欄位名稱不同或缺漏，請確認對應關係後再開始分析。',
+    unifiedColumn: '合併後欄位',
+    noSourceColumn: '(無此欄位)',
+    confirmSchema: '確認欄位對應',
+    schemaConfirmed: '已確認',
+    duplicateColumnNames: '合併後欄位名稱不可空白或重複',
+    schemaNotConfirmed: '請先確認多檔案的欄位對應',
+    matchTypes: {
+      exact: '完全相同',
+      normalized: '格式差異 (空白/大小寫)',
+      synonym: '同義欄位 (中英對照)',
+      manual: '手動指定',
+      missing: '檔案中缺少此欄位'
+    },
     // Storage Restore
     restoreAccess: '恢復權限',
     accessRestored: '已恢復資料夾存取權限！設定已載入。',
@@ -163,8 +331,8 @@ export const translations = {
     poweredBy: 'Powered by Gemini 2.5 Flash',
     dropFile: 'Drop Excel Files Here',
     selectFile: 'Select Files',
-    uploadDesc: 'Supports Digiwin Workflow ERP export reports (.xlsx, .xls). Upload multiple files at once to merge and analyze automatically.',
-    invalidFile: 'Please upload valid Excel files (.xlsx, .xls)',
+    uploadDesc: 'Supports Digiwin Workflow ERP export reports (.xlsx, .xls, .ods, .csv, .tsv). Upload multiple files at once to merge and analyze automatically.',
+    invalidFile: 'Please upload valid Excel or CSV files (.xlsx, .xls, .ods, .csv, .tsv)',
     parsing: 'Parsing and merging data...',
     wait: 'This may take a few seconds',
     stepParsing: 'Reading and merging Excel structure...',
@@ -188,6 +356,10 @@ export const translations = {
     drillDownActive: 'Active Drill Down',
     drillDownDesc: 'Charts and tables are showing data matching this criteria.',
     clearDrillDown: 'Clear Drill Down',
+    drillUp: 'Up One Level',
+    allData: 'All Data',
+    drillLevels: 'Drill Levels',
+    addDrillLevel: '+ Add next level...',
     column: 'Column',
     selectColumn: 'Select Column...',
     condition: 'Condition',
@@ -202,6 +374,18 @@ export const translations = {
     addFilter: 'Add Filter',
     clearAll: 'Clear All',
     noFilters: 'No active filters',
+    activeFilters: 'Active Filters',
+    slicers: 'Slicers',
+    addSlicer: '+ Add slicer...',
+    savedViews: 'Saved views...',
+    viewName: 'View name',
+    saveView: 'Save View',
+    deleteView: 'Delete this view',
+    kpis: 'Key Metrics',
+    kpiVsPrevious: 'vs previous period',
+    kpiNoPrevious: 'No previous period to compare',
+    kpiCurrentPeriod: 'Current period',
+    kpiPreviousPeriod: 'Previous period',
     aiSummary: 'AI Executive Summary',
     updating: '(Updating...)',
     insightNote: '* Note: AI summary is based on the full dataset and may not reflect current filters.',
@@ -218,6 +402,92 @@ export const translations = {
     adjustFontSize: 'Adjust Axis Font Size',
     adjustHeight: 'Adjust Chart Height',
     autoFit: 'Double-click to auto-fit',
+    showSourceColumns: 'Show source columns',
+    includeSummaryRows: 'Include subtotal/total rows',
+    summaryRowsDesc: 'Detected subtotal and total rows are left out of charts, aggregation and AI analysis by default to avoid double counting',
+    rowKinds: {
+      subtotal: 'Subtotal row',
+      total: 'Total row',
+    },
+    pivotTable: 'Pivot Table',
+    pivotDesc: 'Drag fields into the rows, columns, values or filters areas to summarize the data.',
+    pivotFields: 'Fields',
+    pivotRows: 'Rows',
+    pivotColumns: 'Columns',
+    pivotValues: 'Values',
+    pivotFilters: 'Filters',
+    pivotDropHere: 'Drop fields here',
+    pivotEmpty: 'Drag at least one field into the values area',
+    pivotSubtotal: 'Subtotal',
+    pivotGrandTotal: 'Grand Total',
+    pivotTruncated: 'Too many rows; only the first rows are shown, totals still include all data',
+    pivotAllValues: 'All',
+    pivotToChart: 'Create Chart',
+    pivotChartTitle: 'Pivot',
+    pivotChartDesc: 'Created from the pivot table (pivot filters are not applied)',
+    pivotExport: 'Export Excel',
+    sheetPivot: 'Pivot Table',
+    columnProfile: 'Column Profile',
+    columnProfileDesc: 'Override detected column types here. Settings are saved per column layout and reapplied the next time the same report is imported.',
+    columnTypeOverridden: 'overridden',
+    resetColumnTypes: 'Reset all to detected',
+    columnTypeLabel: 'Type',
+    fillRate: 'Filled',
+    distinctValues: 'Distinct',
+    sampleValues: 'Examples',
+    autoDetected: 'Auto',
+    columnTypes: {
+      date: 'Date',
+      number: 'Number',
+      currency: 'Currency',
+      percent: 'Percent',
+      identifier: 'Identifier',
+      category: 'Category',
+    },
+    chartDimension: 'Group By',
+    defaultDimension: 'Default (AI suggested)',
+    chartLimit: 'Show Top',
+    showAllItems: 'All',
+    showOthers: 'Group the rest as "Others"',
+    showAllPeriods: 'Show all periods',
+    othersBucket: 'Others',
+    timeGrain: 'Time Grain',
+    rawDates: 'Raw dates',
+    fiscalYearStart: 'Fiscal year starts in month',
+    timeGrains: {
+      day: 'Day',
+      week: 'Week (ISO)',
+      month: 'Month',
+      quarter: 'Quarter',
+      fiscalYear: 'Fiscal Year',
+      year: 'Year',
+    },
+    cumulativePercent: 'Cumulative %',
+    runningTotal: 'Running Total',
+    waterfallEnd: 'End',
+    seriesMenu: 'Series',
+    secondaryAxis: 'Right Axis (Line)',
+    splitBy: 'Split By',
+    noSplit: 'None',
+    extraMeasures: 'More Measures',
+    heatmapRows: 'Rows (Y Axis)',
+    heatmapRowsHint: 'Pick a column for the heatmap rows in the series menu',
+    stackedSeries: 'Stacked',
+    aggregation: 'Aggregation',
+    aggregations: {
+      sum: 'Sum',
+      count: 'Count',
+      countDistinct: 'Count Distinct',
+      average: 'Average',
+      min: 'Min',
+      max: 'Max',
+      median: 'Median',
+    },
+    provenance: {
+      __sourceFile: 'Source File',
+      __sourceSheet: 'Source Sheet',
+      __sourceRow: 'Source Row'
+    },
     chatTitle: 'AI Assistant',
     chatPlaceholder: 'Ask something about your data...',
     chatTyping: 'Thinking and plotting...',
@@ -272,7 +542,12 @@ export const translations = {
       area: 'Area Chart',
       pie: 'Pie Chart',
       scatter: 'Scatter Plot',
-      radar: 'Radar Chart'
+      radar: 'Radar Chart',
+      combo: 'Combo (Dual Axis)',
+      pareto: 'Pareto Chart',
+      waterfall: 'Waterfall Chart',
+      histogram: 'Histogram',
+      heatmap: 'Heatmap'
     },
     // Config
     configManagerTitle: 'Strategy Configuration',
@@ -301,12 +576,73 @@ export const translations = {
     lblAnalysisPrompt: 'Analysis Prompt',
     lblSelectTemplates: 'Select Templates...',
     lblNoTemplate: 'No Template Linked',
+    tabProvider: 'AI Provider',
+    providerDesc: 'Use Google Gemini, or any OpenAI-compatible model on your own servers (e.g. Ollama, vLLM).',
+    providerOpenAI: 'OpenAI-compatible endpoint (Ollama / vLLM)',
+    lblProvider: 'Provider',
+    lblModel: 'Model Name',
+    lblBaseUrl: 'Base URL',
+    lblApiKey: 'API Key',
+    apiKeyGeminiHint: 'Leave empty to use GEMINI_API_KEY from .env.local',
+    apiKeyOptional: 'Usually not needed for local servers',
+    apiKeyLocalOnly: 'The key is kept in this browser only and is not written to EXCEL_AI.json.',
+    providerSaved: 'AI provider settings saved',
+    offlineBadge: 'Offline Analysis',
+    offlineBadgeHint: 'No AI model was available; this analysis was generated locally from column rules',
+    offlineSummary: 'No AI model is available, so this dashboard was generated by local rule-based analysis: the ERP module is detected from the column names to choose charts, and every figure in the insights is computed from all rows.',
+    offlineDetectedModule: 'Detected module',
+    erpModules: {
+      sales: 'Sales (COP)',
+      inventory: 'Inventory (INV)',
+      production: 'Production (MO/SFC)',
+      purchase: 'Purchase (PUR)',
+      general: 'General data'
+    },
+    offlineChartTrend: 'Monthly trend',
+    offlineChartRanking: 'Top 10 ranking',
+    offlineChartShare: 'Share by category',
+    offlineChartDistribution: 'Distribution of values',
+    offlineChartCompare: 'Actual vs target comparison',
+    insightTotal: 'Total',
+    insightTopContributor: 'Top contributor',
+    insightTrend: 'Latest trend',
+    insightAverage: 'Average performance',
+    insightLowest: 'Needs attention',
+    insightBelowSafety: 'Below safety stock',
+    insightDataQuality: 'Data completeness (columns with many blanks)',
     // Staging
     filesSelected: 'Files Selected',
     startAnalysis: 'Start Smart Analysis',
     reselect: 'Reselect',
     singleFileContext: 'Single File Mode: Select Analysis Template',
     multiFileContext: 'Multi-File Mode: Select Analysis Group (Role)',
+    selectSheets: 'Select Sheets to Analyze',
+    recommendedSheet: 'Recommended',
+    headerRow: 'Header Row',
+    headerRowCount: 'Rows',
+    editColumnNames: 'Adjust column names',
+    resetColumnNames: 'Reset to detected names',
+    rowsLabel: 'rows',
+    colsLabel: 'cols',
+    inspectingFiles: 'Reading sheet structure...',
+    noSheetSelected: 'Select at least one sheet for each file',
+    schemaMergeTitle: 'Column Mapping & Merge Schema',
+    showAllColumns: 'Show all columns',
+    schemaIdentical: 'All files share the same columns and can be merged directly.',
+    schemaConflictsDesc: 'Some column names differ or are missing. Review the mapping before starting the analysis.',
+    unifiedColumn: 'Merged Column',
+    noSourceColumn: '(not present)',
+    confirmSchema: 'Confirm Mapping',
+    schemaConfirmed: 'Confirmed',
+    duplicateColumnNames: 'Merged column names must be unique and not empty',
+    schemaNotConfirmed: 'Confirm the column mapping for the staged files first',
+    matchTypes: {
+      exact: 'Exact match',
+      normalized: 'Formatting difference (spaces/case)',
+      synonym: 'Synonym (bilingual)',
+      manual: 'Set manually',
+      missing: 'Missing in this file'
+    },
     // Storage Restore
     restoreAccess: 'Restore Access',
     accessRestored: 'Storage access restored! Config loaded.',
@@ -319,8 +655,8 @@ export const translations = {
     poweredBy: 'Được hỗ trợ bởi Gemini 2.5 Flash',
     dropFile: 'Kéo và thả nhiều tệp Excel vào đây',
     selectFile: 'Chọn tệp',
-    uploadDesc: 'Hỗ trợ các báo cáo xuất từ Digiwin Workflow ERP (.xlsx, .xls). Tải lên nhiều tệp cùng lúc để hợp nhất và phân tích.',
-    invalidFile: 'Vui lòng tải lên tệp Excel hợp lệ (.xlsx, .xls)',
+    uploadDesc: 'Hỗ trợ các báo cáo xuất từ Digiwin Workflow ERP (.xlsx, .xls, .ods, .csv, .tsv). Tải lên nhiều tệp cùng lúc để hợp nhất và phân tích.',
+    invalidFile: 'Vui lòng tải lên tệp Excel hoặc CSV hợp lệ (.xlsx, .xls, .ods, .csv, .tsv)',
     parsing: 'Đang phân tích và hợp nhất dữ liệu...',
     wait: 'Việc này có thể mất vài giây',
     stepParsing: 'Đang đọc và hợp nhất cấu trúc Excel...',
@@ -344,6 +680,10 @@ export const translations = {
     drillDownActive: 'Đang xem chi tiết',
     drillDownDesc: 'Biểu đồ và bảng chỉ hiển thị dữ liệu khớp với tiêu chí này.',
     clearDrillDown: 'Xóa bộ lọc',
+    drillUp: 'Lên một cấp',
+    allData: 'Tất cả dữ liệu',
+    drillLevels: 'Các cấp khoan sâu',
+    addDrillLevel: '+ Thêm cấp tiếp theo...',
     column: 'Cột',
     selectColumn: 'Chọn cột...',
     condition: 'Điều kiện',
@@ -358,6 +698,18 @@ export const translations = {
     addFilter: 'Thêm bộ lọc',
     clearAll: 'Xóa tất cả',
     noFilters: 'Không có bộ lọc nào đang hoạt động',
+    activeFilters: 'Bộ lọc đang dùng',
+    slicers: 'Bộ lọc nhanh',
+    addSlicer: '+ Thêm bộ lọc nhanh...',
+    savedViews: 'Chế độ xem đã lưu...',
+    viewName: 'Tên chế độ xem',
+    saveView: 'Lưu chế độ xem',
+    deleteView: 'Xóa chế độ xem này',
+    kpis: 'Chỉ số chính',
+    kpiVsPrevious: 'so với kỳ trước',
+    kpiNoPrevious: 'Không có kỳ trước để so sánh',
+    kpiCurrentPeriod: 'Kỳ này',
+    kpiPreviousPeriod: 'Kỳ trước',
     aiSummary: 'Tóm tắt thông tin chi tiết AI',
     updating: '(Đang cập nhật...)',
     insightNote: '* Lưu ý: Tóm tắt AI dựa trên dữ liệu gốc và có thể không phản ánh các bộ lọc hiện tại.',
@@ -374,6 +726,92 @@ export const translations = {
     adjustFontSize: 'Điều chỉnh cỡ chữ trục',
     adjustHeight: 'Điều chỉnh chiều cao',
     autoFit: 'Nhấn đúp để tự động điều chỉnh',
+    showSourceColumns: 'Hiển thị cột nguồn',
+    includeSummaryRows: 'Bao gồm dòng tổng phụ/tổng cộng',
+    summaryRowsDesc: 'Các dòng tổng phụ và tổng cộng được phát hiện mặc định bị loại khỏi biểu đồ, tổng hợp và phân tích AI để tránh tính trùng',
+    rowKinds: {
+      subtotal: 'Dòng tổng phụ',
+      total: 'Dòng tổng cộng',
+    },
+    pivotTable: 'Bảng tổng hợp',
+    pivotDesc: 'Kéo các trường vào vùng hàng, cột, giá trị hoặc bộ lọc để tổng hợp dữ liệu.',
+    pivotFields: 'Trường',
+    pivotRows: 'Hàng',
+    pivotColumns: 'Cột',
+    pivotValues: 'Giá trị',
+    pivotFilters: 'Bộ lọc',
+    pivotDropHere: 'Thả trường vào đây',
+    pivotEmpty: 'Kéo ít nhất một trường vào vùng giá trị',
+    pivotSubtotal: 'Tổng phụ',
+    pivotGrandTotal: 'Tổng cộng',
+    pivotTruncated: 'Quá nhiều hàng; chỉ hiển thị các hàng đầu, tổng vẫn bao gồm toàn bộ dữ liệu',
+    pivotAllValues: 'Tất cả',
+    pivotToChart: 'Tạo biểu đồ',
+    pivotChartTitle: 'Tổng hợp',
+    pivotChartDesc: 'Tạo từ bảng tổng hợp (không áp dụng bộ lọc của bảng)',
+    pivotExport: 'Xuất Excel',
+    sheetPivot: 'Bảng tổng hợp',
+    columnProfile: 'Hồ sơ cột',
+    columnProfileDesc: 'Ghi đè kiểu cột được phát hiện tại đây. Cài đặt được lưu theo cấu trúc cột và tự áp dụng khi nhập lại cùng báo cáo.',
+    columnTypeOverridden: 'đã ghi đè',
+    resetColumnTypes: 'Khôi phục tất cả về tự động',
+    columnTypeLabel: 'Kiểu',
+    fillRate: 'Đã điền',
+    distinctValues: 'Giá trị khác nhau',
+    sampleValues: 'Ví dụ',
+    autoDetected: 'Tự động',
+    columnTypes: {
+      date: 'Ngày',
+      number: 'Số',
+      currency: 'Tiền tệ',
+      percent: 'Phần trăm',
+      identifier: 'Mã định danh',
+      category: 'Phân loại',
+    },
+    chartDimension: 'Nhóm theo',
+    defaultDimension: 'Mặc định (AI đề xuất)',
+    chartLimit: 'Hiển thị top',
+    showAllItems: 'Tất cả',
+    showOthers: 'Gộp phần còn lại thành "Khác"',
+    showAllPeriods: 'Hiển thị mọi kỳ',
+    othersBucket: 'Khác',
+    timeGrain: 'Độ chi tiết thời gian',
+    rawDates: 'Ngày gốc',
+    fiscalYearStart: 'Năm tài chính bắt đầu tháng',
+    timeGrains: {
+      day: 'Ngày',
+      week: 'Tuần (ISO)',
+      month: 'Tháng',
+      quarter: 'Quý',
+      fiscalYear: 'Năm tài chính',
+      year: 'Năm',
+    },
+    cumulativePercent: '% lũy kế',
+    runningTotal: 'Lũy kế',
+    waterfallEnd: 'Cuối kỳ',
+    seriesMenu: 'Chuỗi dữ liệu',
+    secondaryAxis: 'Trục phải (đường)',
+    splitBy: 'Tách theo',
+    noSplit: 'Không tách',
+    extraMeasures: 'Thêm chỉ số',
+    heatmapRows: 'Hàng (Trục Y)',
+    heatmapRowsHint: 'Chọn cột cho các hàng của bản đồ nhiệt trong menu chuỗi dữ liệu',
+    stackedSeries: 'Xếp chồng',
+    aggregation: 'Phép tổng hợp',
+    aggregations: {
+      sum: 'Tổng',
+      count: 'Đếm',
+      countDistinct: 'Đếm không trùng',
+      average: 'Trung bình',
+      min: 'Nhỏ nhất',
+      max: 'Lớn nhất',
+      median: 'Trung vị',
+    },
+    provenance: {
+      __sourceFile: 'Tệp nguồn',
+      __sourceSheet: 'Trang tính nguồn',
+      __sourceRow: 'Dòng gốc'
+    },
     chatTitle: 'Trợ lý AI',
     chatPlaceholder: 'Hỏi về dữ liệu của bạn...',
     chatTyping: 'Đang suy nghĩ và vẽ biểu đồ...',
@@ -428,7 +866,12 @@ export const translations = {
       area: 'Biểu đồ vùng',
       pie: 'Biểu đồ tròn',
       scatter: 'Biểu đồ phân tán',
-      radar: 'Biểu đồ radar'
+      radar: 'Biểu đồ radar',
+      combo: 'Kết hợp (hai trục)',
+      pareto: 'Biểu đồ Pareto',
+      waterfall: 'Biểu đồ thác nước',
+      histogram: 'Biểu đồ tần suất',
+      heatmap: 'Bản đồ nhiệt'
     },
     // Config
     configManagerTitle: 'Quản lý cấu hình',
@@ -457,12 +900,73 @@ export const translations = {
     lblAnalysisPrompt: 'Lời nhắc phân tích (Prompt)',
     lblSelectTemplates: 'Chọn mẫu...',
     lblNoTemplate: 'Chưa liên kết mẫu',
+    tabProvider: 'Nhà cung cấp AI',
+    providerDesc: 'Dùng Google Gemini, hoặc bất kỳ mô hình tương thích OpenAI nào trên máy chủ nội bộ (ví dụ Ollama, vLLM).',
+    providerOpenAI: 'Endpoint tương thích OpenAI (Ollama / vLLM)',
+    lblProvider: 'Nhà cung cấp',
+    lblModel: 'Tên mô hình',
+    lblBaseUrl: 'URL gốc (Base URL)',
+    lblApiKey: 'Khóa API',
+    apiKeyGeminiHint: 'Để trống để dùng GEMINI_API_KEY trong .env.local',
+    apiKeyOptional: 'Máy chủ nội bộ thường không cần',
+    apiKeyLocalOnly: 'Khóa chỉ được lưu trong trình duyệt này và không ghi vào EXCEL_AI.json.',
+    providerSaved: 'Đã lưu cấu hình nhà cung cấp AI',
+    offlineBadge: 'Phân tích ngoại tuyến',
+    offlineBadgeHint: 'Không có mô hình AI; phân tích này được tạo cục bộ theo quy tắc cột',
+    offlineSummary: 'Hiện không có mô hình AI, nên bảng điều khiển này được tạo bằng phân tích theo quy tắc trên máy: phân hệ ERP được nhận diện từ tên cột để chọn biểu đồ, và mọi số liệu trong nhận định đều được tính từ toàn bộ dữ liệu.',
+    offlineDetectedModule: 'Phân hệ nhận diện',
+    erpModules: {
+      sales: 'Bán hàng (COP)',
+      inventory: 'Tồn kho (INV)',
+      production: 'Sản xuất (MO/SFC)',
+      purchase: 'Mua hàng (PUR)',
+      general: 'Dữ liệu chung'
+    },
+    offlineChartTrend: 'Xu hướng theo tháng',
+    offlineChartRanking: 'Xếp hạng top 10',
+    offlineChartShare: 'Tỷ trọng theo nhóm',
+    offlineChartDistribution: 'Phân bố giá trị',
+    offlineChartCompare: 'So sánh thực tế và mục tiêu',
+    insightTotal: 'Tổng',
+    insightTopContributor: 'Đóng góp lớn nhất',
+    insightTrend: 'Xu hướng mới nhất',
+    insightAverage: 'Hiệu suất trung bình',
+    insightLowest: 'Cần cải thiện',
+    insightBelowSafety: 'Dưới mức tồn kho an toàn',
+    insightDataQuality: 'Độ đầy đủ dữ liệu (cột có nhiều ô trống)',
     // Staging
     filesSelected: 'Đã chọn tệp',
     startAnalysis: 'Bắt đầu phân tích thông minh',
     reselect: 'Chọn lại',
     singleFileContext: 'Chế độ một tệp: Chọn Mẫu phân tích',
     multiFileContext: 'Chế độ nhiều tệp: Chọn Nhóm phân tích (Vai trò)',
+    selectSheets: 'Chọn trang tính để phân tích',
+    recommendedSheet: 'Đề xuất',
+    headerRow: 'Dòng tiêu đề',
+    headerRowCount: 'Số dòng',
+    editColumnNames: 'Điều chỉnh tên cột',
+    resetColumnNames: 'Khôi phục tên tự động',
+    rowsLabel: 'dòng',
+    colsLabel: 'cột',
+    inspectingFiles: 'Đang đọc cấu trúc trang tính...',
+    noSheetSelected: 'Vui lòng chọn ít nhất một trang tính cho mỗi tệp',
+    schemaMergeTitle: 'Ánh xạ cột & cấu trúc hợp nhất',
+    showAllColumns: 'Hiển thị tất cả cột',
+    schemaIdentical: 'Tất cả tệp có cùng cấu trúc cột và có thể hợp nhất trực tiếp.',
+    schemaConflictsDesc: 'Một số tên cột khác nhau hoặc bị thiếu. Vui lòng kiểm tra ánh xạ trước khi phân tích.',
+    unifiedColumn: 'Cột hợp nhất',
+    noSourceColumn: '(không có)',
+    confirmSchema: 'Xác nhận ánh xạ',
+    schemaConfirmed: 'Đã xác nhận',
+    duplicateColumnNames: 'Tên cột hợp nhất không được trống hoặc trùng lặp',
+    schemaNotConfirmed: 'Vui lòng xác nhận ánh xạ cột cho các tệp trước',
+    matchTypes: {
+      exact: 'Khớp hoàn toàn',
+      normalized: 'Khác định dạng (khoảng trắng/chữ hoa)',
+      synonym: 'Từ đồng nghĩa (song ngữ)',
+      manual: 'Chỉ định thủ công',
+      missing: 'Thiếu trong tệp này'
+    },
     // Storage Restore
     restoreAccess: 'Khôi phục quyền truy cập',
     accessRestored: 'Quyền truy cập đã được khôi phục! Đã tải cấu hình.',
@@ -0,0 +1,213 @@
+
+import { GoogleGenAI, Content } from "@google/genai";
+import { AIProviderSettings, ChatAttachment } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS } from './configService';
+
+// LLM access behind one interface: Gemini, or any OpenAI-compatible chat completions
+// endpoint (Ollama, vLLM, LM Studio, Azure OpenAI, ...). Schemas are written with
+// @google/genai's Type values and converted to JSON Schema for OpenAI-compatible servers.
+
+export interface AIRequest {
+  systemInstruction: string;
+  prompt: string;
+  image?: ChatAttachment;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: any;
+}
+
+// Runs one tool call locally; the returned object is sent back to the model
+export type ToolExecutor = (name: string, args: any) => object;
+
+export interface AIProvider {
+  // A single JSON answer matching the schema, as text
+  generateStructured: (request: AIRequest, schema: any) => Promise<string>;
+  // A conversation in which the model may call tools for up to maxRounds rounds; resolves to its final text
+  chat: (request: AIRequest, tools: ToolDefinition[], execute: ToolExecutor, maxRounds: number) => Promise<string>;
+}
+
+const isRetryableError = (err: any): boolean =>
+  !!err?.message && (err.message.includes('500') || err.message.includes('xhr') || err.message.includes('fetch') || err.message.includes('Rpc'));
+
+// Retries once on network/server errors
+const withRetry = async <T>(request: () => Promise<T>): Promise<T> => {
+  try {
+    return await request();
+  } catch (err: any) {
+    if (!isRetryableError(err)) throw err;
+    console.warn("Retrying AI request due to network/server error:", err.message);
+    // Wait briefly
+    await new Promise(r => setTimeout(r, 1000));
+    return request();
+  }
+};
+
+const runTool = (execute: ToolExecutor, name: string, args: any): object => {
+  try {
+    return execute(name, args);
+  } catch (err: any) {
+    return { error: err.message };
+  }
+};
+
+// --- Gemini ---
+
+const createGeminiProvider = (settings: AIProviderSettings): AIProvider => {
+  // Ensure process is defined before accessing, mostly for safety in strict browser envs
+  const apiKey = settings.apiKey || ((typeof process !== 'undefined' && process.env) ? process.env.API_KEY : '');
+
+  if (!apiKey) {
+    console.error("API_KEY is missing from environment variables.");
+    throw new Error("API Key is missing. Please ensure process.env.API_KEY is configured or set a key in the configuration.");
+  }
+
+  // Create a fresh client for each request to ensure validity
+  const ai = new GoogleGenAI({ apiKey });
+  const model = settings.model || DEFAULT_PROVIDER_SETTINGS.model;
+
+  const toParts = (request: AIRequest): any[] => [
+    ...(request.image ? [{ inlineData: { mimeType: request.image.mimeType, data: request.image.content } }] : []),
+    { text: request.prompt },
+  ];
+
+  return {
+    generateStructured: async (request, schema) => {
+      const response = await withRetry(() => ai.models.generateContent({
+        model,
+        contents: { parts: toParts(request) },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          systemInstruction: request.systemInstruction,
+        },
+      }));
+      if (!response.text) throw new Error("No response generated from AI.");
+      return response.text;
+    },
+
+    chat: async (request, tools, execute, maxRounds) => {
+      const contents: Content[] = [{ role: 'user', parts: toParts(request) }];
+      for (let round = 0; round < maxRounds; round++) {
+        const response = await withRetry(() => ai.models.generateContent({
+          model,
+          contents,
+          config: { tools: [{ functionDeclarations: tools }], systemInstruction: request.systemInstruction },
+        }));
+        const calls = response.functionCalls || [];
+        const modelContent = response.candidates?.[0]?.content;
+        if (calls.length === 0 || !modelContent) return response.text || '';
+
+        contents.push(modelContent);
+        contents.push({
+          role: 'user',
+          parts: calls.map(call => ({
+            functionResponse: { id: call.id, name: call.name, response: runTool(execute, call.name || '', call.args || {}) as Record<string, unknown> },
+          })),
+        });
+      }
+      return '';
+    },
+  };
+};
+
+// --- OpenAI-Compatible ---
+
+/**
+ * Converts a @google/genai schema (type: 'OBJECT', 'STRING', ...) to JSON Schema.
+ */
+const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) =>
+    [key, key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value)]
+  ));
+};
+
+// Local models often wrap JSON in a markdown code fence
+const stripCodeFence = (text: string): string =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+const createOpenAIProvider = (settings: AIProviderSettings): AIProvider => {
+  if (!settings.baseUrl) throw new Error("Base URL is missing. Set the endpoint of the OpenAI-compatible server in the configuration.");
+  if (!settings.model) throw new Error("Model name is missing. Set the model to use in the configuration.");
+
+  const url = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (body: object): Promise<any> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: settings.model, ...body }),
+    });
+    if (!response.ok) {
+      throw new Error(`AI endpoint returned HTTP ${response.status}: ${(await response.text()).slice(0, 300)}`);
+    }
+    return response.json();
+  };
+
+  const toMessages = (request: AIRequest, systemSuffix = ''): any[] => [
+    { role: 'system', content: request.systemInstruction + systemSuffix },
+    {
+      role: 'user',
+      content: request.image
+        ? [
+            { type: 'text', text: request.prompt },
+            { type: 'image_url', image_url: { url: `data:${request.image.mimeType};base64,${request.image.content}` } },
+          ]
+        : request.prompt,
+    },
+  ];
+
+  return {
+    generateStructured: async (request, schema) => {
+      const jsonSchema = toJsonSchema(schema);
+      // The schema is also spelled out for servers that ignore response_format
+      const json = await withRetry(() => post({
+        messages: toMessages(request, `\nRespond with a single JSON object matching this JSON Schema:\n${JSON.stringify(jsonSchema)}`),
+        response_format: { type: 'json_schema', json_schema: { name: 'analysis', schema: jsonSchema } },
+      }));
+      const text = json.choices?.[0]?.message?.content;
+      if (!text) throw new Error("No response generated from AI.");
+      return stripCodeFence(text);
+    },
+
+    chat: async (request, tools, execute, maxRounds) => {
+      const messages = toMessages(request);
+      const toolSpecs = tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: toJsonSchema(tool.parameters) },
+      }));
+
+      for (let round = 0; round < maxRounds; round++) {
+        const json = await withRetry(() => post({ messages, tools: toolSpecs }));
+        const message = json.choices?.[0]?.message;
+        const calls: any[] = message?.tool_calls || [];
+        if (calls.length === 0) return message?.content || '';
+
+        messages.push(message);
+        calls.forEach(call => {
+          let output: object;
+          try {
+            output = runTool(execute, call.function.name, JSON.parse(call.function.arguments || '{}'));
+          } catch (err: any) {
+            output = { error: `Invalid arguments: ${err.message}` };
+          }
+          messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(output) });
+        });
+      }
+      return '';
+    },
+  };
+};
+
+/**
+ * Provider for the configured settings.
+ */
+export const createAIProvider = (settings: AIProviderSettings): AIProvider =>
+  settings.type === 'openai' ? createOpenAIProvider(settings) : createGeminiProvider(settings);
@@ -0,0 +1,165 @@
+
+import { AggregationType, AnalysisResult, ChartConfig, ColumnType, ColumnTypeOverrides, ExcelDataRow, KpiConfig, TimeGrain } from '../types';
+import { getDataColumns, getColumnKind, inferAggregation } from '../utils';
+import { matchColumnName } from './excelService';
+
+// Checks AI chart and KPI configs against the real schema before they reach the dashboard.
+
+export interface ValidationIssue {
+  target: string;     // Chart or KPI title
+  message: string;
+  dropped: boolean;   // The config could not be repaired and was removed
+}
+
+export interface ValidationReport {
+  analysis: AnalysisResult;
+  issues: ValidationIssue[];
+}
+
+const CHART_TYPES: ChartConfig['type'][] = ['bar', 'line', 'area', 'pie', 'scatter', 'radar', 'combo', 'pareto', 'waterfall', 'histogram', 'heatmap'];
+const AGGREGATIONS: AggregationType[] = ['sum', 'count', 'countDistinct', 'average', 'min', 'max', 'median'];
+const TIME_GRAINS: TimeGrain[] = ['day', 'week', 'month', 'quarter', 'fiscalYear', 'year'];
+const NUMERIC_KINDS: ColumnType[] = ['number', 'currency', 'percent'];
+
+const isCounting = (aggregation?: AggregationType) => aggregation === 'count' || aggregation === 'countDistinct';
+
+/**
+ * Validates an AI analysis against the dataset. Near-miss column names are mapped to real
+ * columns; text columns that would be summed are counted instead; optional fields that can't
+ * be resolved are removed; charts and KPIs missing a required column are dropped.
+ */
+export const validateAnalysis = (analysis: AnalysisResult, data: ExcelDataRow[], columnTypes?: ColumnTypeOverrides): ValidationReport => {
+  const columns = getDataColumns(data);
+  const kinds: Record<string, ColumnType> = {};
+  columns.forEach(column => { kinds[column] = getColumnKind(data, column, columnTypes); });
+  const isNumeric = (column: string) => NUMERIC_KINDS.includes(kinds[column]);
+  const issues: ValidationIssue[] = [];
+
+  // Resolves a column name, noting the repair; undefined when nothing matches
+  const resolve = (target: string, field: string, name: string | undefined): string | undefined => {
+    if (!name) return undefined;
+    const match = matchColumnName(name, columns);
+    if (match && match !== name) issues.push({ target, message: `${field} '${name}' was mapped to '${match}'`, dropped: false });
+    return match;
+  };
+
+  // Optional fields that don't resolve are removed
+  const resolveOptional = (target: string, field: string, name: string): string | undefined => {
+    const match = resolve(target, field, name);
+    if (!match) issues.push({ target, message: `${field} '${name}' is not a column and was removed`, dropped: false });
+    return match;
+  };
+
+  const drop = (target: string, message: string) => {
+    issues.push({ target, message, dropped: true });
+    return null;
+  };
+
+  const usedIds = new Set<string>();
+  const uniqueId = (id: string | undefined, prefix: string, index: number) => {
+    let next = id || `${prefix}-${index + 1}`;
+    while (usedIds.has(next)) next = `${next}-${index + 1}`;
+    usedIds.add(next);
+    return next;
+  };
+
+  const charts = (analysis.charts || []).map((original, index): ChartConfig | null => {
+    const chart: ChartConfig = { ...original };
+    const target = chart.title || `Chart ${index + 1}`;
+    chart.id = uniqueId(chart.id, 'chart', index);
+
+    if (!CHART_TYPES.includes(chart.type)) {
+      issues.push({ target, message: `Unknown chart type '${chart.type}' was replaced with 'bar'`, dropped: false });
+      chart.type = 'bar';
+    }
+
+    const dataKey = resolve(target, 'dataKey', chart.dataKey);
+    if (!dataKey) return drop(target, `dataKey '${chart.dataKey}' is not a column`);
+    chart.dataKey = dataKey;
+
+    // Histograms bin dataKey and ignore the X-axis
+    const xAxisKey = chart.type === 'histogram' ? (resolve(target, 'xAxisKey', chart.xAxisKey) || dataKey) : resolve(target, 'xAxisKey', chart.xAxisKey);
+    if (!xAxisKey) return drop(target, `xAxisKey '${chart.xAxisKey}' is not a column`);
+    chart.xAxisKey = xAxisKey;
+
+    if (chart.aggregation && !AGGREGATIONS.includes(chart.aggregation)) delete chart.aggregation;
+    if (chart.timeGrain && !TIME_GRAINS.includes(chart.timeGrain)) delete chart.timeGrain;
+    if (!isNumeric(dataKey)) {
+      if (chart.type === 'histogram') return drop(target, `Histogram column '${dataKey}' is not numeric`);
+      if (!isCounting(chart.aggregation)) {
+        issues.push({ target, message: `dataKey '${dataKey}' is not numeric and is counted instead`, dropped: false });
+        chart.aggregation = 'count';
+      }
+    }
+    if (!chart.aggregation) chart.aggregation = inferAggregation(data, dataKey, columnTypes);
+
+    // Optional fields: unresolved names are removed; extra measures must be numeric
+    if (chart.measures) {
+      chart.measures = chart.measures
+        .map(measure => resolveOptional(target, 'measure', measure))
+        .filter((measure): measure is string => !!measure && isNumeric(measure));
+      if (chart.measures.length === 0) delete chart.measures;
+    }
+    if (chart.seriesKey) {
+      const seriesKey = resolveOptional(target, 'seriesKey', chart.seriesKey);
+      if (seriesKey) chart.seriesKey = seriesKey;
+      else delete chart.seriesKey;
+    }
+    if (chart.secondaryKey) {
+      const secondaryKey = resolveOptional(target, 'secondaryKey', chart.secondaryKey);
+      if (secondaryKey && (isNumeric(secondaryKey) || isCounting(chart.secondaryAggregation))) chart.secondaryKey = secondaryKey;
+      else delete chart.secondaryKey;
+    }
+    if (chart.secondaryAggregation && !AGGREGATIONS.includes(chart.secondaryAggregation)) delete chart.secondaryAggregation;
+    if (chart.drillHierarchy) {
+      chart.drillHierarchy = chart.drillHierarchy
+        .map(column => resolveOptional(target, 'drillHierarchy', column))
+        .filter((column): column is string => !!column);
+      if (chart.drillHierarchy.length < 2) delete chart.drillHierarchy;
+    }
+    if (chart.yAxisKey) {
+      const yAxisKey = resolveOptional(target, 'yAxisKey', chart.yAxisKey);
+      if (yAxisKey) chart.yAxisKey = yAxisKey;
+      else delete chart.yAxisKey;
+    }
+    if (chart.type === 'heatmap' && !chart.yAxisKey) {
+      issues.push({ target, message: 'Heatmap without a valid yAxisKey was changed to a bar chart', dropped: false });
+      chart.type = 'bar';
+    }
+    if (chart.type === 'combo' && !chart.secondaryKey) chart.type = 'bar';
+
+    return chart;
+  });
+
+  const kpis = analysis.kpis?.map((original, index): KpiConfig | null => {
+    const kpi: KpiConfig = { ...original };
+    const target = kpi.label || `KPI ${index + 1}`;
+    kpi.id = uniqueId(kpi.id, 'kpi', index);
+
+    const column = resolve(target, 'column', kpi.column);
+    if (!column) return drop(target, `column '${kpi.column}' is not a column`);
+    kpi.column = column;
+
+    if (!AGGREGATIONS.includes(kpi.aggregation)) kpi.aggregation = inferAggregation(data, column, columnTypes);
+    if (!isNumeric(column) && !isCounting(kpi.aggregation)) {
+      issues.push({ target, message: `column '${column}' is not numeric and is counted instead`, dropped: false });
+      kpi.aggregation = 'countDistinct';
+    }
+    if (kpi.dateColumn) {
+      const dateColumn = resolveOptional(target, 'dateColumn', kpi.dateColumn);
+      if (dateColumn && kinds[dateColumn] === 'date') kpi.dateColumn = dateColumn;
+      else delete kpi.dateColumn;
+    }
+    return kpi;
+  });
+
+  return {
+    analysis: {
+      ...analysis,
+      keyInsights: analysis.keyInsights || [],
+      charts: charts.filter((chart): chart is ChartConfig => chart !== null),
+      ...(kpis ? { kpis: kpis.filter((kpi): kpi is KpiConfig => kpi !== null) } : {}),
+    },
+    issues,
+  };
+};
@@ -1,13 +1,18 @@
 
-import { AnalysisTemplate, AnalysisGroup } from '../types';
+import { AnalysisTemplate, AnalysisGroup, ColumnTypeOverrides, ColumnTypeProfile, DashboardView, AIProviderSettings } from '../types';
 import { fileSystemService } from './fileSystemService';
 
 // Storage Keys
 const KEYS = {
   TEMPLATES: 'app_templates',
   GROUPS: 'app_groups',
+  COLUMN_TYPES: 'app_column_types',
+  VIEWS: 'app_dashboard_views',
+  PROVIDER: 'app_ai_provider',
 };
 
+export const DEFAULT_PROVIDER_SETTINGS: AIProviderSettings = { type: 'gemini', model: 'gemini-2.5-flash' };
+
 // --- Storage Helpers ---
 const save = (key: string, data: any) => localStorage.setItem(key, JSON.stringify(data));
 const load = <T>(key: string): T[] => {
@@ -55,12 +60,55 @@ export const configService = {
     configService.syncToDisk();
   },
 
+  // Column type overrides, keyed by dataset schema fingerprint
+  getColumnTypes: (fingerprint: string): ColumnTypeOverrides =>
+    load<ColumnTypeProfile>(KEYS.COLUMN_TYPES).find(p => p.fingerprint === fingerprint)?.columns || {},
+  saveColumnTypes: (fingerprint: string, columns: ColumnTypeOverrides) => {
+    const list = load<ColumnTypeProfile>(KEYS.COLUMN_TYPES).filter(p => p.fingerprint !== fingerprint);
+    if (Object.keys(columns).length > 0) {
+      list.push({ fingerprint, columns, updatedAt: Date.now() });
+    }
+    save(KEYS.COLUMN_TYPES, list);
+    configService.syncToDisk();
+  },
+
+  // Saved dashboard views (slicers, filters and charts), listed for datasets with the same schema
+  getViews: (fingerprint: string): DashboardView[] =>
+    load<DashboardView>(KEYS.VIEWS).filter(v => v.fingerprint === fingerprint),
+  saveView: (view: DashboardView) => {
+    const list = load<DashboardView>(KEYS.VIEWS);
+    const index = list.findIndex(v => v.id === view.id);
+    if (index >= 0) list[index] = view;
+    else list.push(view);
+    save(KEYS.VIEWS, list);
+    configService.syncToDisk();
+  },
+  deleteView: (id: string) => {
+    const list = load<DashboardView>(KEYS.VIEWS).filter(v => v.id !== id);
+    save(KEYS.VIEWS, list);
+    configService.syncToDisk();
+  },
+
+  // AI provider (Gemini or an OpenAI-compatible endpoint such as a local Ollama/vLLM server)
+  getProviderSettings: (): AIProviderSettings => {
+    const item = localStorage.getItem(KEYS.PROVIDER);
+    return item ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(item) } : DEFAULT_PROVIDER_SETTINGS;
+  },
+  saveProviderSettings: (settings: AIProviderSettings) => {
+    localStorage.setItem(KEYS.PROVIDER, JSON.stringify(settings));
+    configService.syncToDisk();
+  },
+
   // --- Export / Import Logic (JSON only) ---
   
   exportConfigData: () => {
     return {
       groups: load<AnalysisGroup>(KEYS.GROUPS),
       templates: load<AnalysisTemplate>(KEYS.TEMPLATES),
+      columnTypes: load<ColumnTypeProfile>(KEYS.COLUMN_TYPES),
+      views: load<DashboardView>(KEYS.VIEWS),
+      // The API key stays in this browser; shared config files only carry the endpoint
+      provider: { ...configService.getProviderSettings(), apiKey: undefined },
       exportedAt: new Date().toISOString(),
       version: '3.0'
     };
@@ -70,6 +118,13 @@ export const configService = {
     if (!data) throw new Error("Invalid config file");
     if (data.groups) save(KEYS.GROUPS, data.groups);
     if (data.templates) save(KEYS.TEMPLATES, data.templates);
+    if (data.columnTypes) save(KEYS.COLUMN_TYPES, data.columnTypes);
+    if (data.views) save(KEYS.VIEWS, data.views);
+    if (data.provider) {
+      // Keep the local key when the imported provider is the same kind
+      const current = configService.getProviderSettings();
+      localStorage.setItem(KEYS.PROVIDER, JSON.stringify({ ...data.provider, apiKey: data.provider.type === current.type ? current.apiKey : undefined }));
+    }
   },
   
   // --- File System Sync Logic ---
@@ -0,0 +1,152 @@
+
+import * as XLSX from 'xlsx';
+
+// Delimited text import (CSV/TSV). The text is turned into a one-sheet workbook,
+// so header detection and row parsing are the same as for Excel files.
+
+const DELIMITER_CANDIDATES = [',', '\t', ';', '|'];
+
+// How many leading lines are sampled to guess the delimiter
+const DELIMITER_SAMPLE_LINES = 20;
+
+// Plain or thousands-separated numbers. Codes with a leading zero ("00123") stay text.
+const NUMBER_PATTERN = /^[-+]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/;
+const LEADING_ZERO_PATTERN = /^[-+]?0\d/;
+
+export const isDelimitedTextFile = (fileName: string): boolean => /\.(csv|tsv)$/i.test(fileName);
+
+/**
+ * Decodes text bytes. A BOM wins; otherwise strict UTF-8 is tried first and
+ * Big5 (the usual encoding of Traditional Chinese ERP exports) is the fallback.
+ */
+export const decodeText = (data: ArrayBuffer): string => {
+  const bytes = new Uint8Array(data);
+
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('big5').decode(bytes);
+  }
+};
+
+const countOutsideQuotes = (line: string, delimiter: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+};
+
+/**
+ * Guesses the delimiter: the candidate that splits the most sample lines into the same
+ * number of fields. Title lines above the table usually contain none, so they don't decide it.
+ */
+export const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, DELIMITER_SAMPLE_LINES);
+  let best = ',';
+  let bestScore = 0;
+
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    const frequency: Record<number, number> = {};
+    lines.forEach(line => {
+      const count = countOutsideQuotes(line, delimiter);
+      if (count > 0) frequency[count] = (frequency[count] || 0) + 1;
+    });
+    // Lines sharing the most common field count, weighted by that count
+    Object.entries(frequency).forEach(([count, lineCount]) => {
+      const score = lineCount * (Number(count) + 1);
+      if (score > bestScore) {
+        bestScore = score;
+        best = delimiter;
+      }
+    });
+  });
+  return best;
+};
+
+const convertValue = (raw: string): string | number | null => {
+  const value = raw.trim();
+  if (value === '') return null;
+  if (NUMBER_PATTERN.test(value) && !LEADING_ZERO_PATTERN.test(value)) {
+    return Number(value.replace(/,/g, ''));
+  }
+  return value;
+};
+
+/**
+ * Splits delimited text into rows (RFC 4180 quoting: quoted fields may contain
+ * delimiters, line breaks and doubled quotes).
+ */
+export const parseDelimitedText = (text: string, delimiter: string): (string | number | null)[][] => {
+  const rows: (string | number | null)[][] = [];
+  let row: (string | number | null)[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endField = () => {
+    row.push(convertValue(field));
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      inQuotes = true;
+      field = '';
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+// Sheet names are limited to 31 characters and may not contain : \ / ? * [ ]
+const toSheetName = (fileName: string): string =>
+  fileName.replace(/\.[^.]+$/, '').replace(/[:\\/?*\[\]]/g, '_').slice(0, 31) || 'Sheet1';
+
+/**
+ * Reads CSV/TSV bytes into a one-sheet workbook named after the file.
+ */
+export const readDelimitedWorkbook = (data: ArrayBuffer, fileName: string): XLSX.WorkBook => {
+  const text = decodeText(data);
+  const delimiter = /\.tsv$/i.test(fileName) ? '\t' : detectDelimiter(text);
+  const rows = parseDelimitedText(text, delimiter);
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), toSheetName(fileName));
+  return workbook;
+};
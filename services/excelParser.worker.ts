@@ -0,0 +1,63 @@
+
+import * as XLSX from 'xlsx';
+import { ExcelDataRow } from '../types';
+import { cleanAndEnrichData, markSummaryRows } from '../dataUtils';
+import { readWorkbook, inspectWorkbook, parseWorkbook, applySchemaMapping, ParserRequest, ParserResponse } from './workbookParser';
+
+// Parses workbooks off the main thread so large ERP exports don't freeze the UI.
+
+const ctx = self as unknown as Worker;
+
+// Workbooks decoded during inspection, so the parse step doesn't read the file twice.
+// Files are structured-cloned into the worker, so they are keyed by identity fields.
+const workbookCache = new Map<string, XLSX.WorkBook>();
+
+const getFileKey = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+const loadWorkbook = async (file: File): Promise<XLSX.WorkBook> => {
+  const key = getFileKey(file);
+  const cached = workbookCache.get(key);
+  if (cached) return cached;
+
+  const workbook = readWorkbook(await file.arrayBuffer(), file.name);
+  workbookCache.set(key, workbook);
+  return workbook;
+};
+
+const post = (message: ParserResponse) => ctx.postMessage(message);
+
+ctx.onmessage = async (e: MessageEvent<ParserRequest>) => {
+  const request = e.data;
+
+  if (request.type === 'release') {
+    workbookCache.clear();
+    return;
+  }
+
+  try {
+    if (request.type === 'inspect') {
+      const workbook = await loadWorkbook(request.file);
+      post({ type: 'inspected', id: request.id, model: inspectWorkbook(workbook, request.file.name) });
+      return;
+    }
+
+    const { id, files, selections, plan } = request;
+    const results: ExcelDataRow[][] = [];
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      const workbook = await loadWorkbook(file);
+      const rows = parseWorkbook(workbook, file.name, selections?.[i], ({ sheetName, rowsParsed }) =>
+        post({ type: 'progress', id, progress: { fileName: file.name, fileIndex: i, fileCount: files.length, sheetName, rowsParsed } })
+      );
+
+      // The decoded workbook is no longer needed once rows are extracted
+      workbookCache.delete(getFileKey(file));
+      results.push(plan && files.length > 1 ? applySchemaMapping(rows, plan, i) : rows);
+    }
+
+    post({ type: 'parsed', id, rows: markSummaryRows(cleanAndEnrichData(results.flat())) });
+  } catch (error: any) {
+    post({ type: 'error', id: request.id, message: error?.message || String(error) });
+  }
+};
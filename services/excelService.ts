@@ -1,127 +1,147 @@
 
-import * as XLSX from 'xlsx';
-import { ExcelDataRow } from '../types';
-
-export const parseExcelFile = async (file: File): Promise<ExcelDataRow[]> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        if (!data) {
-          reject(new Error("File is empty"));
-          return;
-        }
+import { ExcelDataRow, SheetSelection, WorkbookModel, SchemaMergePlan, ParseProgress } from '../types';
+import { ParserRequest, ParserResponse } from './workbookParser';
+
+// Header and schema helpers are pure and run on the main thread for the staging UI
+export {
+  MAX_HEADER_ROWS,
+  buildHeaderKeys,
+  flattenHeaderRows,
+  getHeaderKeys,
+  getDefaultSelections,
+  normalizeHeader,
+  getSelectedHeaders,
+  proposeSchemaMerge,
+  hasSchemaConflicts,
+  matchColumnName,
+} from './workbookParser';
+
+type WorkerRequest = Exclude<ParserRequest, { type: 'release' }>;
+
+interface PendingRequest {
+  message: WorkerRequest;   // Kept so requests can be re-sent when the worker is recreated
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+interface ParseOptions {
+  onProgress?: (progress: ParseProgress) => void;
+  signal?: AbortSignal;
+}
+
+// --- Worker Client ---
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./excelParser.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<ParserResponse>) => {
+    const message = e.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+
+    if (message.type === 'progress') {
+      request.onProgress?.(message.progress);
+      return;
+    }
 
-        // Use 'array' type for ArrayBuffer, which is more robust than binary strings
-        const workbook = XLSX.read(data, { type: 'array' });
-        
-        if (workbook.SheetNames.length === 0) {
-            reject(new Error("Excel file has no sheets"));
-            return;
-        }
+    pending.delete(message.id);
+    if (message.type === 'error') {
+      request.reject(new Error(message.message));
+    } else {
+      request.resolve(message.type === 'inspected' ? message.model : message.rows);
+    }
+  };
+  worker.onerror = (e) => {
+    // An uncaught worker failure leaves every request without an answer
+    terminateWorker(new Error(e.message || "Excel parser crashed"));
+  };
+  return worker;
+};
 
-        let bestSheetName = "";
-        let bestHeaderIndex = 0;
-        let maxScore = -1;
-
-        // Check up to first 3 sheets to find the most data-rich one
-        // This handles cases where Sheet 1 is a summary/title page and Sheet 2 has the actual data.
-        const sheetsToCheck = workbook.SheetNames.slice(0, 3);
-
-        for (const sheetName of sheetsToCheck) {
-            const sheet = workbook.Sheets[sheetName];
-            // Convert to AOA to inspect structure without parsing keys yet
-            const aoa = XLSX.utils.sheet_to_json(sheet, { header: 1 }) as any[][];
-
-            if (!aoa || aoa.length === 0) continue;
-
-            // Header Detection Logic (per sheet)
-            let currentHeaderIndex = 0;
-            let currentMaxCols = 0;
-            const searchLimit = Math.min(aoa.length, 25);
-
-            for (let i = 0; i < searchLimit; i++) {
-                const row = aoa[i];
-                if (!row) continue;
-                // Count valid cells (not null/undefined/empty string)
-                const filledCells = row.filter(cell => 
-                    cell !== null && cell !== undefined && String(cell).trim() !== ''
-                ).length;
-                
-                // If this row has significantly more columns than what we've seen, it's likely the header
-                if (filledCells > currentMaxCols) {
-                    currentMaxCols = filledCells;
-                    currentHeaderIndex = i;
-                }
-            }
-
-            // Score calculation: (Total Rows - Header Offset) * Columns
-            // This favors sheets with actual data tables over summary sheets with few cells.
-            if (currentMaxCols > 0) {
-                const rowCount = aoa.length;
-                const dataRowCount = Math.max(0, rowCount - currentHeaderIndex);
-                const score = dataRowCount * currentMaxCols;
-                
-                // console.log(`Sheet: ${sheetName}, HeaderIdx: ${currentHeaderIndex}, Cols: ${currentMaxCols}, Rows: ${dataRowCount}, Score: ${score}`);
-
-                if (score > maxScore) {
-                    maxScore = score;
-                    bestSheetName = sheetName;
-                    bestHeaderIndex = currentHeaderIndex;
-                }
-            }
-        }
+const terminateWorker = (reason: Error) => {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(request => request.reject(reason));
+  pending.clear();
+};
 
-        // Fallback: If no good sheet found, just try the first one with index 0
-        if (!bestSheetName) {
-             bestSheetName = workbook.SheetNames[0];
-             bestHeaderIndex = 0;
-        }
+const postRequest = (request: PendingRequest) => {
+  const target = getWorker();
+  pending.set(request.message.id, request);
+  target.postMessage(request.message);
+};
 
-        // Final Processing on Best Sheet
-        const finalSheet = workbook.Sheets[bestSheetName];
-        
-        // Convert to JSON using the detected header row from the best sheet
-        const jsonData = XLSX.utils.sheet_to_json(finalSheet, { 
-          range: bestHeaderIndex,
-          defval: null // Ensure empty cells are null, not undefined
-        }) as ExcelDataRow[];
-        
-        if (jsonData.length === 0) {
-          reject(new Error("No data found in the Excel sheet"));
-          return;
-        }
+const sendRequest = <T>(message: WorkerRequest, onProgress?: (progress: ParseProgress) => void): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    postRequest({ message, resolve: resolve as (value: unknown) => void, reject, onProgress });
+  });
 
-        resolve(jsonData);
-      } catch (err) {
-        reject(err);
-      }
-    };
+/**
+ * Rejects one request by discarding the worker, since a running parse can't be interrupted.
+ * The other pending requests are sent again to a fresh worker.
+ */
+const cancelRequest = (id: number, reason: Error) => {
+  const cancelled = pending.get(id);
+  pending.delete(id);
+  const others = Array.from(pending.values());
+  pending.clear();
+  worker?.terminate();
+  worker = null;
+  cancelled?.reject(reason);
+  others.forEach(postRequest);
+};
 
-    reader.onerror = (err) => {
-      reject(err);
-    };
+/**
+ * Lists every sheet of a workbook with its detected header row, row count and score,
+ * so the user can choose what to analyze. The decoded workbook stays cached in the
+ * parser worker until the file is parsed or the staging area is cleared.
+ */
+export const inspectExcelFile = (file: File): Promise<WorkbookModel> =>
+  sendRequest<WorkbookModel>({ type: 'inspect', id: nextRequestId++, file });
 
-    // Use readAsArrayBuffer instead of readAsBinaryString
-    reader.readAsArrayBuffer(file);
-  });
+/**
+ * Drops workbooks cached by the parser worker, e.g. when staged files are removed.
+ */
+export const releaseParsedWorkbooks = () => {
+  worker?.postMessage({ type: 'release' } as ParserRequest);
 };
 
 /**
- * Parses multiple Excel files and merges them into a single dataset.
- * It assumes the files have similar schemas, or at least that merging them is the desired intent.
+ * Parses multiple Excel files in the parser worker and merges them into a single, cleaned dataset.
+ * When a confirmed schema plan is given, every file's rows are mapped onto it before combining,
+ * so slightly different headers ("Qty" vs "數量") land in the same column.
+ * Aborting the signal terminates the worker and rejects with an AbortError.
  */
-export const parseMultipleExcelFiles = async (files: File[]): Promise<ExcelDataRow[]> => {
+export const parseMultipleExcelFiles = async (
+    files: File[],
+    selections?: SheetSelection[][],
+    plan?: SchemaMergePlan,
+    options: ParseOptions = {}
+): Promise<ExcelDataRow[]> => {
+    const { onProgress, signal } = options;
+    if (signal?.aborted) {
+        throw new DOMException('Parsing cancelled', 'AbortError');
+    }
+
+    const id = nextRequestId++;
+    // sheet_to_json can't be interrupted, so the worker is discarded and recreated on next use
+    const onAbort = () => cancelRequest(id, new DOMException('Parsing cancelled', 'AbortError'));
+    signal?.addEventListener('abort', onAbort);
+
     try {
-        const promises = files.map(file => parseExcelFile(file));
-        const results = await Promise.all(promises);
-        
-        // Flatten array of arrays into a single array
-        return results.flat();
+        return await sendRequest<ExcelDataRow[]>({ type: 'parse', id, files, selections, plan }, onProgress);
     } catch (error) {
-        console.error("Error parsing multiple files:", error);
+        if (!(error instanceof DOMException && error.name === 'AbortError')) {
+            console.error("Error parsing multiple files:", error);
+        }
         throw error;
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
     }
 };
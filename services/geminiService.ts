@@ -1,6 +1,10 @@
-
-import { GoogleGenAI, Type } from "@google/genai";
-import { ExcelDataRow, AnalysisResult, Language, ChatAttachment, ChatMessage, AnalysisTemplate } from '../types';
+import { Type } from "@google/genai";
+import { ExcelDataRow, AnalysisResult, Language, ChatAttachment, ChatMessage, AnalysisTemplate, ColumnTypeOverrides, DataQuery, DataQueryResult } from '../types';
+import { getDataColumns, stripProvenance, buildDatasetProfile, getStratifiedSample, runDataQuery } from '../utils';
+import { validateAnalysis } from './analysisValidator';
+import { createAIProvider, AIProvider, AIRequest, ToolDefinition } from './aiProvider';
+import { configService } from './configService';
+import { analyzeDataOffline } from './offlineAnalyzer';
 
 const analysisSchema = {
   type: Type.OBJECT,
@@ -21,29 +25,140 @@ const analysisSchema = {
         properties: {
           id: { type: Type.STRING },
           title: { type: Type.STRING },
-          type: { type: Type.STRING, enum: ['bar', 'line', 'area', 'pie', 'scatter', 'radar'] },
+          type: { type: Type.STRING, enum: ['bar', 'line', 'area', 'pie', 'scatter', 'radar', 'combo', 'pareto', 'waterfall', 'histogram', 'heatmap'] },
           xAxisKey: { type: Type.STRING, description: "Exact column name to use for the X-axis (category)." },
           dataKey: { type: Type.STRING, description: "Exact column name to use for the Y-axis (numerical value)." },
+          aggregation: {
+            type: Type.STRING,
+            enum: ['sum', 'count', 'countDistinct', 'average', 'min', 'max', 'median'],
+            description: "How dataKey values are combined for each X-axis category.",
+          },
+          timeGrain: {
+            type: Type.STRING,
+            enum: ['day', 'week', 'month', 'quarter', 'fiscalYear', 'year'],
+            description: "Only for date X-axes: the period size dates are bucketed into.",
+          },
+          measures: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Optional extra numeric columns plotted as more series next to dataKey (e.g. Planned Qty vs Completed Qty).",
+          },
+          seriesKey: { type: Type.STRING, description: "Optional category column that splits dataKey into one series per value (e.g. Warehouse)." },
+          stacked: { type: Type.BOOLEAN, description: "Stack the series of a multi-series bar or area chart." },
+          secondaryKey: { type: Type.STRING, description: "Combo charts only: column drawn as a line against the right Y axis (e.g. Gross Margin %)." },
+          secondaryAggregation: {
+            type: Type.STRING,
+            enum: ['sum', 'count', 'countDistinct', 'average', 'min', 'max', 'median'],
+            description: "Combo charts only: aggregation of secondaryKey.",
+          },
+          yAxisKey: { type: Type.STRING, description: "Heatmaps only: date or category column for the rows (e.g. Production Line)." },
+          drillHierarchy: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Optional category columns from broad to detailed, starting with xAxisKey (e.g. Region, Customer, Product); clicking a bar drills into the next level.",
+          },
           description: { type: Type.STRING, description: "Why this chart is relevant." },
         },
-        required: ['id', 'title', 'type', 'xAxisKey', 'dataKey', 'description'],
+        required: ['id', 'title', 'type', 'xAxisKey', 'dataKey', 'aggregation', 'description'],
+      },
+    },
+    kpis: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          label: { type: Type.STRING, description: "Short card title, e.g. Total Sales Amount." },
+          column: { type: Type.STRING, description: "Exact column name the KPI is computed from." },
+          aggregation: {
+            type: Type.STRING,
+            enum: ['sum', 'count', 'countDistinct', 'average', 'min', 'max', 'median'],
+            description: "How the column is combined over all rows.",
+          },
+          format: { type: Type.STRING, enum: ['number', 'currency', 'percent'] },
+          dateColumn: { type: Type.STRING, description: "Optional date column for the period-over-period change." },
+        },
+        required: ['id', 'label', 'column', 'aggregation'],
       },
+      description: "3-4 headline KPI definitions. Values are computed by the app from the data, so only define them.",
     },
   },
-  required: ['summary', 'keyInsights', 'charts'],
+  required: ['summary', 'keyInsights', 'charts', 'kpis'],
 };
 
-// Helper to create client instance safely
-const createAIClient = () => {
-  // Ensure process is defined before accessing, mostly for safety in strict browser envs
-  const apiKey = (typeof process !== 'undefined' && process.env) ? process.env.API_KEY : '';
-  
-  if (!apiKey) {
-    console.error("API_KEY is missing from environment variables.");
-    throw new Error("API Key is missing. Please ensure process.env.API_KEY is configured.");
-  }
-  
-  return new GoogleGenAI({ apiKey: apiKey });
+// Local query API the model calls for exact figures; calls run in the browser against all rows
+const queryDataTool: ToolDefinition = {
+  name: 'query_data',
+  description: "Filter, group, aggregate and rank ALL rows of the dataset. Use it for every number you state (totals, counts, averages, top-N, per-period figures).",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      filters: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            column: { type: Type.STRING, description: "Exact column name." },
+            operator: { type: Type.STRING, enum: ['contains', 'is', 'startsWith', 'endsWith', 'eq', 'gt', 'lt', 'gte', 'lte', 'between'] },
+            value: { type: Type.STRING, description: "Text, number or yyyy-mm-dd date." },
+            secondValue: { type: Type.STRING, description: "Upper bound for 'between'." },
+          },
+          required: ['column', 'operator', 'value'],
+        },
+        description: "Conditions every counted row must meet.",
+      },
+      groupBy: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Columns to group by; omit for one overall result." },
+      timeGrain: { type: Type.STRING, enum: ['day', 'week', 'month', 'quarter', 'fiscalYear', 'year'], description: "Buckets date group-by columns into periods." },
+      measures: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            column: { type: Type.STRING },
+            aggregation: { type: Type.STRING, enum: ['sum', 'count', 'countDistinct', 'average', 'min', 'max', 'median'] },
+          },
+          required: ['column', 'aggregation'],
+        },
+      },
+      order: { type: Type.STRING, enum: ['desc', 'asc'], description: "Sort groups by the first measure." },
+      limit: { type: Type.INTEGER, description: "Number of groups returned (default 20, max 100)." },
+    },
+    required: ['measures'],
+  },
+};
+
+// Rounds of function calls before the answer is written with what was gathered
+const MAX_QUERY_ROUNDS = 5;
+
+interface QueryLogEntry {
+  query: DataQuery;
+  result?: DataQueryResult;
+  error?: string;
+}
+
+/**
+ * Lets the model call query_data until it has the figures it needs. Each call runs locally
+ * against all rows; errors (e.g. an unknown column) go back to the model so it can retry.
+ */
+const runQueryLoop = async (
+  provider: AIProvider,
+  request: AIRequest,
+  data: ExcelDataRow[],
+  columnTypes?: ColumnTypeOverrides
+): Promise<QueryLogEntry[]> => {
+  const log: QueryLogEntry[] = [];
+  await provider.chat(request, [queryDataTool], (_name, args) => {
+    const query = args as DataQuery;
+    try {
+      const result = runDataQuery(data, query, columnTypes);
+      log.push({ query, result });
+      return { output: result };
+    } catch (err: any) {
+      log.push({ query, error: err.message });
+      return { error: err.message };
+    }
+  }, MAX_QUERY_ROUNDS);
+  return log;
 };
 
 export const analyzeDataWithGemini = async (
@@ -52,16 +167,30 @@ export const analyzeDataWithGemini = async (
   userPrompt?: string,
   image?: ChatAttachment,
   history?: ChatMessage[],
-  templates?: AnalysisTemplate[]
+  templates?: AnalysisTemplate[],
+  columnTypes?: ColumnTypeOverrides
 ): Promise<AnalysisResult> => {
   
-  // Create a fresh client for each request to ensure validity
-  const ai = createAIClient();
+  // Create a fresh provider for each request so configuration changes apply immediately
+  let provider: AIProvider;
+  try {
+    provider = createAIProvider(configService.getProviderSettings());
+  } catch (error) {
+    // No model configured (e.g. missing API key): full analyses fall back to local rules
+    if (userPrompt) throw error;
+    console.warn("No AI model available, using the offline analyzer:", error);
+    return analyzeDataOffline(data, language, columnTypes);
+  }
 
-  // We send a sample of the data to avoid token limits, but enough to understand the schema and values.
-  const sampleSize = 40; 
-  const dataSample = data.slice(0, sampleSize);
-  const headers = Object.keys(dataSample[0] || {}).join(', ');
+  // Figures over all rows go in a local profile; a sample spread across the data shows what rows look like
+  const sampleSize = 40;
+  const profile = buildDatasetProfile(data, columnTypes);
+  const { rows: sampleRows, strataColumn } = getStratifiedSample(data, sampleSize, columnTypes);
+  const dataSample = sampleRows.map(stripProvenance);
+  const sampleNote = strataColumn ? `${dataSample.length} rows, stratified by '${strataColumn}'` : `${dataSample.length} rows, spread evenly`;
+  const headers = getDataColumns(dataSample).join(', ');
+  // Types include the user's overrides, so the model doesn't have to guess them from names
+  const typedHeaders = profile.columns.map(stats => `${stats.column} (${stats.type})`).join(', ');
 
   const languageName = {
     'zh-TW': 'Traditional Chinese (Taiwan)',
@@ -85,7 +214,9 @@ export const analyzeDataWithGemini = async (
 
        I have provided a dataset.
        Column Headers: ${headers}
-       Sample Data: ${JSON.stringify(dataSample)}
+       Column Types: ${typedHeaders}
+       Dataset Profile (computed from all ${profile.rowCount} rows): ${JSON.stringify(profile)}
+       Sample Data (${sampleNote}): ${JSON.stringify(dataSample)}
      `;
   } else {
     // Default Digiwin ERP Logic with enhanced module detection
@@ -105,20 +236,34 @@ export const analyzeDataWithGemini = async (
        - *Charts*: Spend by Vendor (Bar), Price Trends (Line).
 
     **Analysis Rules:**
-    1. **Data Consistency**: 'dataKey' MUST be a numeric field. 'xAxisKey' MUST be a category or date field.
+    1. **Data Consistency**: 'dataKey' MUST be a numeric field (any field when counting). 'xAxisKey' MUST be a category or date field.
+       - Base totals, trends and outliers in the summary and insights on the Dataset Profile (all rows), never on the sample alone.
     2. **Chart Selection**:
        - Use **Line Chart** for dates/time trends (e.g., Daily/Monthly).
        - Use **Bar Chart** for comparing categories (e.g., Sales by Customer).
        - Use **Pie Chart** ONLY for small sets (< 8 categories).
        - Use **Scatter/Radar** for complex multi-metric comparisons.
-    3. **Aggregation Logic** (Internal): 
-       - If you choose a column with "ID", "No", or "Code" as 'dataKey', the system will automatically *COUNT* occurrences.
-       - If you choose a column with "Rate", "Percent", "Avg" as 'dataKey', the system will automatically *AVERAGE* it.
-       - Otherwise, it will *SUM* the values.
+       - Use **Combo Chart** for an amount and a rate on two Y axes.
+       - Use **Pareto Chart** to find the vital few causes (e.g. Scrap Qty by Scrap Reason); it adds a cumulative % line.
+       - Use **Waterfall Chart** for bridges where categories are signed steps (e.g. Cost Variance by Variance Item); steps follow the row order and end with the total.
+       - Use **Histogram** for the distribution of one numeric column (e.g. Aging Days); 'dataKey' is the column to bin and 'xAxisKey' is ignored.
+       - Use **Heatmap** for density across two dimensions (e.g. Defect Qty by Week × Production Line); 'xAxisKey' gives the columns, 'yAxisKey' the rows.
+    3. **Aggregation**: Set 'aggregation' on every chart, based on what the column means rather than its name.
+       - 'sum' for additive amounts and quantities (Amount, Qty, Cost).
+       - 'average' for rates, percentages and unit prices (Completion Rate, Unit Price); 'median' when outliers would distort an average.
+       - 'count' to count rows (e.g. number of orders using 'Order No'); 'countDistinct' for unique values (e.g. number of customers).
+       - 'min' / 'max' for extremes (e.g. longest Aging Days).
+       - Respect the Column Types below: 'identifier', 'category' and 'date' columns can only be counted.
+    4. **Time Grain**: When 'xAxisKey' is a date column, set 'timeGrain' so daily dates are grouped (e.g. 'month' for a year of orders, 'week' for a few months, 'quarter' or 'year' for multi-year data). Omit it for category axes.
+    5. **Multi-Series**: For comparisons such as "Sales by Month split by Warehouse" set 'seriesKey' (a category column with few values); for "Planned vs Completed Qty" list the extra columns in 'measures'. Use one or the other, only with bar, line or area charts; set 'stacked' when the parts add up to a meaningful whole.
+    6. **Combo Chart**: To pair an amount with a rate (e.g. Sales Amount with Gross Margin %, Output Qty with Yield Rate), use type 'combo' with the amount as 'dataKey' (bars, left axis) and the rate as 'secondaryKey' (line, right axis), usually with 'secondaryAggregation' 'average'.
+    7. **KPIs**: Define 3-4 headline 'kpis' such as Total Amount ('sum', 'currency'), Order Count ('countDistinct' of the order number), Average Rate ('average', 'percent') and Distinct Customers ('countDistinct'). Do not calculate the values; the app computes them from the filtered data and compares the latest period of 'dateColumn' with the one before.
     
     **Dataset Info:**
     - Headers: ${headers}
-    - Sample Data (first ${sampleSize} rows): ${JSON.stringify(dataSample)}
+    - Column Types: ${typedHeaders}
+    - Dataset Profile (computed from all ${profile.rowCount} rows): ${JSON.stringify(profile)}
+    - Sample Data (${sampleNote}): ${JSON.stringify(dataSample)}
     `;
   }
 
@@ -161,58 +306,53 @@ export const analyzeDataWithGemini = async (
           - Example: "Production efficiency dropped 15% in Line A due to high scrap rates."
       3.  **Strategic Charts**: Suggest up to 4 charts to best visualize performance.
           - Choose the most relevant metrics (e.g., Amount, Qty, Rate).
+      4.  **KPIs**: Define 3-4 headline 'kpis' (e.g. Total Amount, Order Count, Average Rate, Distinct Customers).
       
       **Language**: Output STRICTLY in ${languageName}.
     `;
   }
 
   try {
-    const parts: any[] = [{ text: baseContext + taskPrompt }];
+    let prompt = baseContext + taskPrompt;
 
-    if (image) {
-      parts.unshift({
-        inlineData: {
-          mimeType: image.mimeType,
-          data: image.content
-        }
-      });
+    // Exact figures come first, for questions and for the insights of a full analysis: function calling
+    // and a JSON response schema can't be combined, so the query results are passed to the final request as text
+    const queryInstruction = userPrompt
+      ? `Call 'query_data' for every figure the answer needs (e.g. total sales to one customer in one month).`
+      : `Call 'query_data' for every figure the summary and key insights will cite (e.g. top customers by amount, monthly totals for a trend).`;
+    const queryLog = await runQueryLoop(provider, {
+      systemInstruction: roleInstruction,
+      prompt: `${prompt}\n**Before answering**: ${queryInstruction} Do not estimate from the sample.`,
+      image,
+    }, data, columnTypes);
+    if (queryLog.length > 0) {
+      prompt += `\n**Verified Query Results** (computed locally from all ${data.length} rows; quote these numbers exactly in 'summary' and 'keyInsights'):\n${JSON.stringify(queryLog)}`;
     }
 
-    const performRequest = async () => {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: parts },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: analysisSchema,
-                systemInstruction: roleInstruction,
-            },
-        });
-        return response;
+    const requestAnalysis = async (requestPrompt: string): Promise<AnalysisResult> => {
+      const text = await provider.generateStructured({ systemInstruction: roleInstruction, prompt: requestPrompt, image }, analysisSchema);
+      return JSON.parse(text) as AnalysisResult;
     };
 
-    // Retry Logic for Stability
-    let response;
-    try {
-        response = await performRequest();
-    } catch (err: any) {
-        if (err.message && (err.message.includes('500') || err.message.includes('xhr') || err.message.includes('fetch') || err.message.includes('Rpc'))) {
-             console.warn("Retrying Gemini request due to network/server error:", err.message);
-             // Wait briefly
-             await new Promise(r => setTimeout(r, 1000));
-             response = await performRequest();
-        } else {
-            throw err;
-        }
-    }
-
-    if (response && response.text) {
-      return JSON.parse(response.text) as AnalysisResult;
+    // Charts are checked against the real columns; near misses are repaired locally, and when a
+    // chart had to be dropped the model is asked once more with the specific errors
+    let report = validateAnalysis(await requestAnalysis(prompt), data, columnTypes);
+    const dropped = report.issues.filter(issue => issue.dropped);
+    if (dropped.length > 0) {
+      console.warn("Invalid AI charts:", report.issues);
+      try {
+        const retry = validateAnalysis(await requestAnalysis(
+          `${prompt}\n**Fix These Errors** from your previous answer. Use ONLY these columns: ${headers}.\n${dropped.map(issue => `- ${issue.target}: ${issue.message}`).join('\n')}`
+        ), data, columnTypes);
+        if (retry.issues.filter(issue => issue.dropped).length < dropped.length) report = retry;
+      } catch (err) {
+        console.warn("Chart repair request failed, keeping the valid charts:", err);
+      }
     }
-    throw new Error("No response generated from AI.");
+    return report.analysis;
 
   } catch (error) {
-    console.error("Gemini Analysis Error:", error);
+    console.error("AI Analysis Error:", error);
     throw error;
   }
 };
@@ -0,0 +1,231 @@
+
+import { AnalysisResult, ChartConfig, ColumnType, ColumnTypeOverrides, ExcelDataRow, KpiConfig, Language } from '../types';
+import { getDataColumns, getColumnKind, aggregateColumn, inferAggregation, runDataQuery, computeKpi, buildDatasetProfile, formatNumber, formatPercent } from '../utils';
+import { translations } from '../i18n';
+
+// Rule-based analysis for when no AI model is reachable. Uses the same Digiwin ERP module
+// patterns as the default prompt to pick columns, charts and KPIs, and fills insight
+// templates with figures computed from all rows.
+
+export type ErpModule = 'sales' | 'inventory' | 'production' | 'purchase' | 'general';
+
+type ColumnRole =
+  | 'amount' | 'qty' | 'margin' | 'rate' | 'price' | 'aging' | 'stock' | 'safety' | 'scrap' | 'planned' | 'completed'
+  | 'customer' | 'vendor' | 'product' | 'warehouse' | 'workCenter' | 'reason' | 'salesOrder' | 'purchaseOrder' | 'moNo';
+
+// English keywords match whole words; CJK and Vietnamese keywords match anywhere in the header
+const ROLE_KEYWORDS: Record<ColumnRole, string[]> = {
+  amount: ['amount', 'amt', 'sales', 'revenue', 'spend', '金額', '金额', '銷售額', '營收', 'thành tiền', 'số tiền', 'doanh thu'],
+  qty: ['qty', 'quantity', '數量', '数量', 'số lượng'],
+  margin: ['margin', 'gross profit', '毛利', 'lợi nhuận'],
+  rate: ['rate', 'yield', 'efficiency', 'ratio', '率', '達成', 'tỷ lệ', 'hiệu suất'],
+  price: ['price', 'unit price', '單價', '单价', 'đơn giá'],
+  aging: ['aging', 'age', 'aging days', '帳齡', '庫齡', '天數', 'tuổi'],
+  stock: ['stock', 'stock qty', 'on hand', 'inventory', '庫存', '存量', 'tồn kho'],
+  safety: ['safety', 'safety stock', '安全存量', '安全庫存', 'tồn kho an toàn'],
+  scrap: ['scrap', 'defect', 'reject', '報廢', '不良', 'phế phẩm'],
+  planned: ['planned', 'plan', 'planned qty', '預計', '計畫', '計劃', 'kế hoạch'],
+  completed: ['completed', 'output', 'completed qty', '完工', '產出', 'hoàn thành'],
+  customer: ['customer', 'client', '客戶', '客户', 'khách hàng'],
+  vendor: ['vendor', 'supplier', '廠商', '供應商', 'nhà cung cấp'],
+  product: ['product', 'item', 'part', 'item no', '品號', '品名', '料號', 'mã hàng', 'tên hàng'],
+  warehouse: ['warehouse', '倉庫', '庫別', 'kho'],
+  workCenter: ['work center', 'line', 'production line', 'workshop', '工作中心', '產線', '線別', 'dây chuyền'],
+  reason: ['reason', 'cause', '原因', 'lý do'],
+  salesOrder: ['sales order', 'so', 'so no', 'order no', '訂單', '訂單單號', 'số đơn'],
+  purchaseOrder: ['po', 'po no', 'purchase order', '採購單', '採購單號', 'đơn mua'],
+  moNo: ['mo', 'mo no', 'work order', '製令', '工單', 'lệnh sản xuất'],
+};
+
+// Column roles that point to each module (the module patterns of the default prompt)
+const MODULE_ROLES: Record<Exclude<ErpModule, 'general'>, ColumnRole[]> = {
+  sales: ['customer', 'salesOrder', 'amount', 'margin'],
+  inventory: ['warehouse', 'stock', 'safety', 'aging'],
+  production: ['moNo', 'workCenter', 'planned', 'completed', 'scrap'],
+  purchase: ['vendor', 'purchaseOrder', 'price'],
+};
+
+const NUMERIC_KINDS: ColumnType[] = ['number', 'currency', 'percent'];
+const MEASURE_ROLES: ColumnRole[] = ['amount', 'qty', 'margin', 'rate', 'price', 'aging', 'stock', 'safety', 'scrap', 'planned', 'completed'];
+
+// Categories shown by ranking charts, and the most a pie may have
+const TOP_N = 10;
+const MAX_PIE_SLICES = 8;
+
+// Columns emptier than this are called out as a data quality insight
+const SPARSE_COLUMN_RATIO = 0.2;
+
+const matchesKeyword = (column: string, keyword: string): boolean => {
+  if (/^[a-z ]+$/.test(keyword)) {
+    const words = ` ${column.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9%]+/).filter(Boolean).join(' ')} `;
+    return words.includes(` ${keyword} `);
+  }
+  return column.toLowerCase().includes(keyword);
+};
+
+/**
+ * Deterministic analysis of the rows: module detection from the column names, charts and KPIs
+ * for that module, and insights filled in with figures computed from the data.
+ */
+export const analyzeDataOffline = (data: ExcelDataRow[], language: Language, columnTypes?: ColumnTypeOverrides): AnalysisResult => {
+  const t = translations[language];
+  const columns = getDataColumns(data);
+  const kinds: Record<string, ColumnType> = {};
+  columns.forEach(column => { kinds[column] = getColumnKind(data, column, columnTypes); });
+  const isNumeric = (column: string) => NUMERIC_KINDS.includes(kinds[column]);
+
+  // First column per role; measures must be numeric, dimensions must not be
+  const roles: Partial<Record<ColumnRole, string>> = {};
+  (Object.keys(ROLE_KEYWORDS) as ColumnRole[]).forEach(role => {
+    const isMeasure = MEASURE_ROLES.includes(role);
+    roles[role] = columns.find(column =>
+      isMeasure === isNumeric(column) && kinds[column] !== 'date' && ROLE_KEYWORDS[role].some(keyword => matchesKeyword(column, keyword))
+    );
+  });
+
+  const scores = (Object.keys(MODULE_ROLES) as Exclude<ErpModule, 'general'>[])
+    .map(module => ({ module, score: MODULE_ROLES[module].filter(role => roles[role]).length }));
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+  const module: ErpModule = best.score > 0 ? best.module : 'general';
+
+  const dateColumn = columns.find(column => kinds[column] === 'date');
+  const numericColumns = columns.filter(isNumeric);
+  const categoryColumns = columns.filter(column => kinds[column] === 'category');
+  const distinctCount = (column: string) => aggregateColumn(data, column, 'countDistinct');
+  // Rates and percentages (e.g. Gross Margin %) are averaged, whatever their name says
+  const measureAggregation = (column: string): ChartConfig['aggregation'] =>
+    kinds[column] === 'percent' || column.includes('%') || column === roles.rate ? 'average' : inferAggregation(data, column, columnTypes);
+
+  // --- Charts ---
+
+  const charts: ChartConfig[] = [];
+  const addChart = (chart: Omit<ChartConfig, 'id' | 'title'> & { title?: string }) => {
+    if (charts.length >= 4 || charts.some(c => c.xAxisKey === chart.xAxisKey && c.dataKey === chart.dataKey && c.type === chart.type)) return;
+    charts.push({
+      ...chart,
+      id: `offline-${charts.length + 1}`,
+      title: chart.title || `${chart.dataKey} - ${chart.xAxisKey}`,
+      aggregation: chart.aggregation || measureAggregation(chart.dataKey),
+    });
+  };
+  const trend = (measure?: string, aggregation?: ChartConfig['aggregation']) => {
+    if (measure && dateColumn) addChart({ type: 'line', xAxisKey: dateColumn, dataKey: measure, aggregation, timeGrain: 'month', description: t.offlineChartTrend });
+  };
+  const ranking = (dimension?: string, measure?: string, extra: Partial<ChartConfig> = {}) => {
+    if (dimension && measure) addChart({ type: 'bar', xAxisKey: dimension, dataKey: measure, limit: TOP_N, description: t.offlineChartRanking, ...extra });
+  };
+  const share = (dimension?: string, measure?: string) => {
+    if (!dimension || !measure) return;
+    const type = distinctCount(dimension) <= MAX_PIE_SLICES ? 'pie' : 'pareto';
+    addChart({ type, xAxisKey: dimension, dataKey: measure, description: t.offlineChartShare });
+  };
+
+  // The headline measure of each module (Amount for sales, Stock Qty for inventory, ...)
+  const mainMeasure = {
+    sales: roles.amount || roles.qty,
+    inventory: roles.stock || roles.qty,
+    production: roles.completed || roles.qty,
+    purchase: roles.amount || roles.qty,
+    general: roles.amount || roles.qty,
+  }[module] || numericColumns[0];
+  switch (module) {
+    case 'sales':
+      trend(roles.amount || roles.qty);
+      ranking(roles.customer, roles.amount || roles.qty);
+      ranking(roles.product, roles.amount || roles.qty);
+      ranking(roles.customer || roles.product, roles.margin);
+      break;
+    case 'inventory':
+      ranking(roles.warehouse, roles.stock || roles.qty);
+      if (roles.aging) addChart({ type: 'histogram', xAxisKey: roles.aging, dataKey: roles.aging, description: t.offlineChartDistribution });
+      if (roles.stock && roles.safety) ranking(roles.product, roles.stock, { measures: [roles.safety], description: t.offlineChartCompare });
+      break;
+    case 'production':
+      trend(roles.rate, 'average');
+      ranking(roles.workCenter, roles.completed || roles.qty, roles.planned ? { measures: [roles.planned], description: t.offlineChartCompare } : {});
+      share(roles.reason, roles.scrap);
+      break;
+    case 'purchase':
+      ranking(roles.vendor, roles.amount || roles.qty);
+      trend(roles.price, 'average');
+      ranking(roles.product, roles.amount || roles.qty);
+      break;
+  }
+  // Generic charts fill up what the module found
+  trend(mainMeasure);
+  ranking(categoryColumns[0], mainMeasure);
+  share(categoryColumns.find(column => distinctCount(column) <= MAX_PIE_SLICES), mainMeasure);
+  if (mainMeasure) addChart({ type: 'histogram', xAxisKey: mainMeasure, dataKey: mainMeasure, description: t.offlineChartDistribution });
+
+  // --- KPIs ---
+
+  const kpis: KpiConfig[] = [];
+  const addKpi = (column: string | undefined, aggregation: KpiConfig['aggregation'], format: KpiConfig['format']) => {
+    if (!column || kpis.some(k => k.column === column)) return;
+    kpis.push({ id: `kpi-${kpis.length + 1}`, label: `${column} (${t.aggregations[aggregation]})`, column, aggregation, format, dateColumn });
+  };
+  if (mainMeasure) addKpi(mainMeasure, measureAggregation(mainMeasure)!, kinds[mainMeasure] === 'currency' || mainMeasure === roles.amount ? 'currency' : 'number');
+  addKpi(roles.salesOrder || roles.purchaseOrder || roles.moNo, 'countDistinct', 'number');
+  addKpi(roles.rate, 'average', 'percent');
+  addKpi(roles.customer || roles.vendor || roles.product, 'countDistinct', 'number');
+
+  // --- Insights ---
+
+  const insights: string[] = [];
+  // Rates stored as fractions (0.125) are shown as 12.5%
+  const formatRate = (column: string, value: number) => {
+    const values = data.slice(0, 200).map(row => parseFloat(String(row[column]))).filter(num => !isNaN(num));
+    return formatPercent(value, values.length > 0 && values.every(num => Math.abs(num) <= 1) ? 100 : 1);
+  };
+
+  if (mainMeasure) {
+    const aggregation = measureAggregation(mainMeasure)!;
+    insights.push(`${t.insightTotal}: ${mainMeasure} (${t.aggregations[aggregation]}) ${formatNumber(aggregateColumn(data, mainMeasure, aggregation))} · ${formatNumber(data.length)} ${t.dataCount}`);
+
+    const dimension = roles.customer || roles.vendor || roles.workCenter || roles.warehouse || roles.product || categoryColumns[0];
+    if (dimension && aggregation === 'sum') {
+      const top = runDataQuery(data, { groupBy: [dimension], measures: [{ column: mainMeasure, aggregation }], limit: 1 }, columnTypes).rows[0];
+      const total = aggregateColumn(data, mainMeasure, aggregation);
+      if (top && total > 0) {
+        insights.push(`${t.insightTopContributor}: ${dimension} "${top[0]}" ${formatNumber(top[1] as number)} (${formatPercent(top[1] as number / total, 100)})`);
+      }
+    }
+
+    if (dateColumn) {
+      const result = computeKpi(data, { id: 'trend', label: mainMeasure, column: mainMeasure, aggregation, dateColumn }, columnTypes);
+      if (result.change !== undefined) {
+        insights.push(`${t.insightTrend}: ${mainMeasure} ${result.period} ${result.change >= 0 ? '+' : ''}${formatPercent(result.change, 100)} ${t.kpiVsPrevious}`);
+      }
+    }
+  }
+
+  if (roles.rate) {
+    const dimension = roles.workCenter || roles.product || categoryColumns[0];
+    insights.push(`${t.insightAverage}: ${roles.rate} ${formatRate(roles.rate, aggregateColumn(data, roles.rate, 'average'))}`);
+    if (dimension) {
+      const lowest = runDataQuery(data, { groupBy: [dimension], measures: [{ column: roles.rate, aggregation: 'average' }], order: 'asc', limit: 1 }, columnTypes).rows[0];
+      if (lowest) insights.push(`${t.insightLowest}: ${dimension} "${lowest[0]}" ${formatRate(roles.rate, lowest[1] as number)}`);
+    }
+  }
+
+  if (roles.stock && roles.safety) {
+    const below = data.filter(row => parseFloat(String(row[roles.stock!])) < parseFloat(String(row[roles.safety!]))).length;
+    insights.push(`${t.insightBelowSafety}: ${formatNumber(below)} ${t.dataCount}`);
+  }
+
+  const sparse = buildDatasetProfile(data, columnTypes).columns.filter(stats => stats.nullRatio > SPARSE_COLUMN_RATIO);
+  if (sparse.length > 0) {
+    insights.push(`${t.insightDataQuality}: ${sparse.slice(0, 5).map(stats => `${stats.column} (${formatPercent(stats.nullRatio, 100)})`).join(', ')}`);
+  }
+
+  return {
+    summary: [
+      t.offlineSummary,
+      `${t.offlineDetectedModule}: ${t.erpModules[module]} · ${formatNumber(data.length)} ${t.dataCount}`,
+    ].join('\n'),
+    keyInsights: insights.slice(0, 5),
+    charts,
+    kpis,
+    offline: true,
+  };
+};
@@ -0,0 +1,486 @@
+
+import * as XLSX from 'xlsx';
+import { ExcelDataRow, SheetInfo, SheetSelection, WorkbookModel, SchemaMergePlan, UnifiedColumn, ColumnMatchType, ParseProgress } from '../types';
+import { isDelimitedTextFile, readDelimitedWorkbook } from './csvParser';
+
+// Workbook parsing without DOM dependencies. Runs inside the parser worker;
+// the header and schema helpers are also used by the staging UI.
+
+// How many leading rows are scanned for the header and kept for the sheet picker preview
+const HEADER_SEARCH_LIMIT = 25;
+
+// Stacked header rows are capped so a title block above the table can't be swallowed
+export const MAX_HEADER_ROWS = 4;
+
+// Rows converted per sheet_to_json call, so progress can be reported on large sheets
+const ROW_CHUNK_SIZE = 5000;
+
+/**
+ * Decodes a workbook from raw file bytes. CSV/TSV files become a single sheet;
+ * xlsx, xls and ods are read by SheetJS directly.
+ */
+export const readWorkbook = (data: ArrayBuffer, fileName: string): XLSX.WorkBook => {
+  if (!data || data.byteLength === 0) {
+    throw new Error("File is empty");
+  }
+
+  // Use 'array' type for ArrayBuffer, which is more robust than binary strings
+  const workbook = isDelimitedTextFile(fileName)
+    ? readDelimitedWorkbook(data, fileName)
+    : XLSX.read(data, { type: 'array' });
+
+  if (workbook.SheetNames.length === 0) {
+    throw new Error("Excel file has no sheets");
+  }
+  return workbook;
+};
+
+const isFilledCell = (cell: any) => cell !== null && cell !== undefined && String(cell).trim() !== '';
+
+/**
+ * Builds row keys from a header row the same way sheet_to_json does:
+ * empty cells become "__EMPTY" and duplicates get a "_1", "_2" suffix.
+ */
+export const buildHeaderKeys = (headerRow: any[], columnCount: number): string[] => {
+  const seen: Record<string, number> = {};
+  const keys: string[] = [];
+
+  for (let c = 0; c < columnCount; c++) {
+    const cell = headerRow[c];
+    const base = isFilledCell(cell) ? String(cell).trim() : '__EMPTY';
+    let key = base;
+    let counter = seen[base] || 0;
+    if (!counter) {
+      seen[base] = 1;
+    } else {
+      do { key = `${base}_${counter++}`; } while (seen[key]);
+      seen[base] = counter;
+      seen[key] = 1;
+    }
+    keys.push(key);
+  }
+  return keys;
+};
+
+/**
+ * Header Detection: the row (within the first rows) with the most filled cells.
+ */
+const detectHeaderRow = (aoa: any[][]): { index: number; filledCount: number } => {
+  let index = 0;
+  let filledCount = 0;
+  const searchLimit = Math.min(aoa.length, HEADER_SEARCH_LIMIT);
+
+  for (let i = 0; i < searchLimit; i++) {
+    const row = aoa[i];
+    if (!row) continue;
+    const filled = row.filter(isFilledCell).length;
+
+    // If this row has more columns than what we've seen, it's likely the header
+    if (filled > filledCount) {
+      filledCount = filled;
+      index = i;
+    }
+  }
+  return { index, filledCount };
+};
+
+const getColumnCount = (sheet: XLSX.WorkSheet): number => {
+  if (!sheet['!ref']) return 0;
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  return range.e.c - range.s.c + 1;
+};
+
+/**
+ * Merged ranges of a sheet, relative to the AOA read from the given origin. A report title
+ * merged across most of the table (and alone on its row) is left out, so it neither looks
+ * like a fully filled header row nor joins a header band.
+ */
+const getHeaderMerges = (sheet: XLSX.WorkSheet, origin: XLSX.CellAddress, aoa: any[][], columnCount: number): XLSX.Range[] =>
+  (sheet['!merges'] || [])
+    .map(m => ({
+      s: { r: m.s.r - origin.r, c: m.s.c - origin.c },
+      e: { r: m.e.r - origin.r, c: m.e.c - origin.c },
+    }))
+    .filter(m => {
+      const isWide = m.s.r === m.e.r && (m.e.c - m.s.c + 1) > columnCount / 2;
+      return !isWide || (aoa[m.s.r] || []).filter(isFilledCell).length > 1;
+    });
+
+/**
+ * Copies the value of each merged range's top-left cell into the rest of the range,
+ * so a group header spanning several columns labels every one of them.
+ */
+const fillMergedCells = (aoa: any[][], merges: XLSX.Range[]): any[][] => {
+  const rows = aoa.map(row => (row ? [...row] : []));
+  merges.forEach(m => {
+    const value = rows[m.s.r]?.[m.s.c];
+    if (!isFilledCell(value)) return;
+    for (let r = Math.max(0, m.s.r); r <= m.e.r && r < rows.length; r++) {
+      for (let c = m.s.c; c <= m.e.c; c++) rows[r][c] = value;
+    }
+  });
+  return rows;
+};
+
+/**
+ * Whether row r and the row below belong to the same header band: a vertical merge
+ * crosses between them ("品號" spanning both rows), or row r holds a group cell over
+ * several columns ("本月" over "數量/金額") with a sub-header under each of them.
+ */
+const continuesHeader = (aoa: any[][], merges: XLSX.Range[], r: number): boolean =>
+  merges.some(m => {
+    if (m.s.r <= r && m.e.r > r) return true;
+    if (m.s.r !== r || m.e.r !== r || m.e.c === m.s.c) return false;
+    for (let c = m.s.c; c <= m.e.c; c++) {
+      if (!isFilledCell(aoa[r + 1]?.[c])) return false;
+    }
+    return true;
+  });
+
+/**
+ * Grows the detected header row into a band of stacked header rows, up and down,
+ * while the rows are tied together by merged cells.
+ */
+const detectHeaderBand = (aoa: any[][], merges: XLSX.Range[], index: number): { start: number; count: number } => {
+  let start = index;
+  let end = index;
+  while (start > 0 && end - start + 1 < MAX_HEADER_ROWS && continuesHeader(aoa, merges, start - 1)) start--;
+  while (end + 1 < aoa.length && end - start + 1 < MAX_HEADER_ROWS && continuesHeader(aoa, merges, end)) end++;
+  return { start, count: end - start + 1 };
+};
+
+/**
+ * Flattens stacked header rows (with merged cells already filled) into one name per column,
+ * e.g. "本月 / 數量". A label repeated by a vertical merge is kept once.
+ */
+export const flattenHeaderRows = (headerRows: any[][], columnCount: number): string[] =>
+  Array.from({ length: columnCount }, (_, c) => {
+    const parts: string[] = [];
+    headerRows.forEach(row => {
+      const cell = row?.[c];
+      if (!isFilledCell(cell)) return;
+      const label = String(cell).trim();
+      if (parts[parts.length - 1] !== label) parts.push(label);
+    });
+    return parts.join(' / ');
+  });
+
+/**
+ * Column keys for a selected sheet: the user's edited names when present,
+ * otherwise the flattened header band from the preview.
+ */
+export const getHeaderKeys = (sheet: SheetInfo, selection: SheetSelection): string[] => {
+  const { headerRowIndex, headerRowCount, headerNames } = selection;
+  const names = headerNames || flattenHeaderRows(sheet.previewRows.slice(headerRowIndex, headerRowIndex + headerRowCount), sheet.columnCount);
+  return buildHeaderKeys(names, sheet.columnCount);
+};
+
+const inspectSheet = (sheet: XLSX.WorkSheet, name: string): SheetInfo => {
+  // Convert to AOA to inspect structure without parsing keys yet
+  const aoa = (XLSX.utils.sheet_to_json(sheet, { header: 1 }) as any[][]) || [];
+  const columnCount = getColumnCount(sheet);
+  const origin = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s : { r: 0, c: 0 };
+  const merges = getHeaderMerges(sheet, origin, aoa, columnCount);
+
+  // Detect on filled rows: a header whose cells are merged vertically is otherwise mostly empty
+  const headerRows = fillMergedCells(aoa.slice(0, HEADER_SEARCH_LIMIT + MAX_HEADER_ROWS), merges);
+  const { index: detectedIndex, filledCount } = detectHeaderRow(headerRows);
+  const { start: index, count: headerRowCount } = detectHeaderBand(aoa, merges, detectedIndex);
+
+  const totalRows = aoa.length;
+  const dataRowCount = Math.max(0, totalRows - index - headerRowCount);
+
+  // Score calculation: (Total Rows - Header Offset) * Columns
+  // This favors sheets with actual data tables over summary sheets with few cells.
+  const score = filledCount > 0 ? Math.max(0, totalRows - index) * filledCount : 0;
+
+  return {
+    name,
+    headerRowIndex: index,
+    headerRowCount,
+    headers: buildHeaderKeys(flattenHeaderRows(headerRows.slice(index, index + headerRowCount), columnCount), columnCount),
+    columnCount,
+    rowCount: dataRowCount,
+    totalRows,
+    score,
+    previewRows: headerRows.map(row =>
+      Array.from({ length: columnCount }, (_, c) => (isFilledCell(row?.[c]) ? String(row[c]) : ''))
+    ),
+  };
+};
+
+/**
+ * Lists every sheet of a workbook with its detected header row, row count and score,
+ * so the user can choose what to analyze.
+ */
+export const inspectWorkbook = (workbook: XLSX.WorkBook, fileName: string): WorkbookModel => {
+  const sheets = workbook.SheetNames.map(name => inspectSheet(workbook.Sheets[name], name));
+
+  // Recommend the most data-rich sheet. This handles cases where Sheet 1 is a summary/title page.
+  let recommended = sheets[0];
+  for (const sheet of sheets) {
+    if (sheet.score > recommended.score) recommended = sheet;
+  }
+
+  return {
+    fileName,
+    sheets,
+    recommendedSheet: recommended.name,
+  };
+};
+
+/**
+ * Default selection for a workbook: only the recommended sheet, with its detected header row.
+ */
+export const getDefaultSelections = (model: WorkbookModel): SheetSelection[] => {
+  const sheet = model.sheets.find(s => s.name === model.recommendedSheet) || model.sheets[0];
+  return sheet ? [{ sheetName: sheet.name, headerRowIndex: sheet.headerRowIndex, headerRowCount: sheet.headerRowCount }] : [];
+};
+
+const readSheetRows = (
+  sheet: XLSX.WorkSheet,
+  selection: SheetSelection,
+  fileName: string,
+  onChunk: (rowsParsed: number) => void
+): ExcelDataRow[] => {
+  if (!sheet['!ref']) return [];
+  const { headerRowIndex, headerRowCount, headerNames } = selection;
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const columnCount = range.e.c - range.s.c + 1;
+  const bandOrigin = { r: range.s.r + headerRowIndex, c: range.s.c };
+  const bandRows = XLSX.utils.sheet_to_json(sheet, {
+    header: 1,
+    blankrows: true,
+    range: { s: bandOrigin, e: { r: bandOrigin.r + headerRowCount - 1, c: range.e.c } },
+  }) as any[][];
+  const headerRows = fillMergedCells(bandRows, getHeaderMerges(sheet, bandOrigin, bandRows, columnCount));
+  const header = buildHeaderKeys(headerNames || flattenHeaderRows(headerRows, columnCount), columnCount);
+
+  // Convert to JSON using the chosen header rows; data starts on the row below them
+  let rows: ExcelDataRow[] = [];
+  for (let start = bandOrigin.r + headerRowCount; start <= range.e.r; start += ROW_CHUNK_SIZE) {
+    const chunk = XLSX.utils.sheet_to_json(sheet, {
+      header,
+      range: { s: { r: start, c: range.s.c }, e: { r: Math.min(range.e.r, start + ROW_CHUNK_SIZE - 1), c: range.e.c } },
+      defval: null // Ensure empty cells are null, not undefined
+    }) as ExcelDataRow[];
+
+    // Tag provenance. sheet_to_json exposes the 0-based sheet row as a hidden __rowNum__.
+    chunk.forEach(row => {
+      row.__sourceFile = fileName;
+      row.__sourceSheet = selection.sheetName;
+      row.__sourceRow = (row as any).__rowNum__ + 1;
+    });
+    rows = rows.concat(chunk);
+    onChunk(rows.length);
+  }
+  return rows;
+};
+
+/**
+ * Parses the selected sheets of a workbook. Without a selection, the recommended sheet is used.
+ */
+export const parseWorkbook = (
+  workbook: XLSX.WorkBook,
+  fileName: string,
+  selections: SheetSelection[] | undefined,
+  onProgress?: (progress: Pick<ParseProgress, 'sheetName' | 'rowsParsed'>) => void
+): ExcelDataRow[] => {
+  const targets = selections && selections.length > 0
+    ? selections
+    : getDefaultSelections(inspectWorkbook(workbook, fileName));
+
+  let rows: ExcelDataRow[] = [];
+  for (const selection of targets) {
+    const sheet = workbook.Sheets[selection.sheetName];
+    if (!sheet) continue;
+    const parsedBefore = rows.length;
+    onProgress?.({ sheetName: selection.sheetName, rowsParsed: parsedBefore });
+    rows = rows.concat(readSheetRows(sheet, selection, fileName, count =>
+      onProgress?.({ sheetName: selection.sheetName, rowsParsed: parsedBefore + count })
+    ));
+  }
+
+  if (rows.length === 0) {
+    throw new Error("No data found in the Excel sheet");
+  }
+  return rows;
+};
+
+// --- Schema Merge ---
+
+// Bilingual header synonyms seen across Digiwin exports and hand-made spreadsheets.
+// Each group maps to one canonical key; entries are compared after normalization.
+const HEADER_SYNONYMS: string[][] = [
+  ['qty', 'quantity', '數量', '数量', 'số lượng'],
+  ['amount', 'amt', 'total amount', '金額', '金额', '總金額', 'thành tiền', 'số tiền'],
+  ['price', 'unit price', '單價', '单价', 'đơn giá'],
+  ['cost', 'unit cost', '成本', '單位成本', 'giá vốn'],
+  ['customer', 'customer name', '客戶', '客户', '客戶名稱', '客戶簡稱', 'khách hàng'],
+  ['vendor', 'supplier', '廠商', '供應商', '廠商簡稱', 'nhà cung cấp'],
+  ['item no', 'item', 'part no', '品號', '料號', 'mã hàng'],
+  ['product name', 'product', 'item name', '品名', 'tên hàng'],
+  ['spec', 'specification', '規格', 'quy cách'],
+  ['warehouse', '倉庫', '庫別', 'kho'],
+  ['unit', '單位', 'đơn vị'],
+  ['date', '日期', 'ngày'],
+  ['doc date', 'document date', 'order date', '單據日期', 'ngày chứng từ'],
+  ['order no', 'doc no', '單號', '單據號碼', 'số đơn'],
+  ['department', 'dept', '部門', 'bộ phận'],
+  ['work center', '工作中心', 'trung tâm sản xuất'],
+];
+
+/**
+ * Normalizes a header for loose comparison: full-width to half-width, lowercase,
+ * and without whitespace or punctuation ("Qty " and "ＱＴＹ" both become "qty").
+ */
+export const normalizeHeader = (header: string): string =>
+  header.normalize('NFKC').toLowerCase().replace(/[\s_\-.:()（）\[\]\/]+/g, '');
+
+const SYNONYM_INDEX = new Map<string, number>();
+HEADER_SYNONYMS.forEach((group, i) => group.forEach(name => SYNONYM_INDEX.set(normalizeHeader(name), i)));
+
+const getSynonymGroup = (header: string): number | undefined => SYNONYM_INDEX.get(normalizeHeader(header));
+
+/**
+ * Column keys of the selected sheets of a workbook, in order of first appearance.
+ */
+export const getSelectedHeaders = (model: WorkbookModel, selections: SheetSelection[]): string[] => {
+  const headers: string[] = [];
+  selections.forEach(selection => {
+    const sheet = model.sheets.find(s => s.name === selection.sheetName);
+    if (!sheet) return;
+    getHeaderKeys(sheet, selection)
+      .filter(key => !key.startsWith('__EMPTY'))
+      .forEach(key => { if (!headers.includes(key)) headers.push(key); });
+  });
+  return headers;
+};
+
+/**
+ * Proposes a unified schema for several files. Columns of the first file define the base;
+ * headers of the other files are matched in three passes (exact, normalized, bilingual synonym)
+ * so a strong match is never taken by a weaker one. Unmatched headers become new columns.
+ */
+export const proposeSchemaMerge = (fileNames: string[], fileHeaders: string[][]): SchemaMergePlan => {
+  const fileCount = fileHeaders.length;
+  const columns: UnifiedColumn[] = [];
+
+  const addColumn = (fileIndex: number, header: string) => {
+    const sources: (string | null)[] = Array(fileCount).fill(null);
+    const matchTypes: ColumnMatchType[] = Array(fileCount).fill('missing');
+    sources[fileIndex] = header;
+    matchTypes[fileIndex] = 'exact';
+    columns.push({ name: header.trim(), sources, matchTypes });
+  };
+
+  const passes: { type: ColumnMatchType; matches: (a: string, b: string) => boolean }[] = [
+    { type: 'exact', matches: (a, b) => a === b },
+    { type: 'normalized', matches: (a, b) => normalizeHeader(a) === normalizeHeader(b) },
+    { type: 'synonym', matches: (a, b) => {
+        const group = getSynonymGroup(a);
+        return group !== undefined && group === getSynonymGroup(b);
+    } },
+  ];
+
+  fileHeaders.forEach((headers, fileIndex) => {
+    let pending = [...headers];
+
+    passes.forEach(pass => {
+      pending = pending.filter(header => {
+        const target = columns.find(col =>
+          col.sources[fileIndex] === null &&
+          col.sources.some(src => src !== null && pass.matches(header, src))
+        );
+        if (!target) return true;
+        target.sources[fileIndex] = header;
+        target.matchTypes[fileIndex] = pass.type;
+        return false;
+      });
+    });
+
+    pending.forEach(header => addColumn(fileIndex, header));
+  });
+
+  return { fileNames, fileHeaders, columns };
+};
+
+/**
+ * A plan needs confirmation when any column was matched loosely or is missing from a file.
+ */
+export const hasSchemaConflicts = (plan: SchemaMergePlan): boolean =>
+  plan.fileHeaders.length > 1 &&
+  plan.columns.some(col => col.matchTypes.some(type => type !== 'exact'));
+
+// Typos tolerated by the loose column lookup: one edit per this many characters
+const CHARS_PER_EDIT = 5;
+
+const editDistance = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+/**
+ * Finds the column a loosely written name refers to (e.g. a column name returned by the AI):
+ * exact, normalized, bilingual synonym, then the closest name within a few typos.
+ */
+export const matchColumnName = (name: string, columns: string[]): string | undefined => {
+  if (columns.includes(name)) return name;
+  const normalized = normalizeHeader(name);
+  if (!normalized) return undefined;
+
+  const byNormalized = columns.find(col => normalizeHeader(col) === normalized);
+  if (byNormalized) return byNormalized;
+
+  const group = getSynonymGroup(name);
+  const bySynonym = group !== undefined ? columns.find(col => getSynonymGroup(col) === group) : undefined;
+  if (bySynonym) return bySynonym;
+
+  let best: string | undefined;
+  let bestDistance = Math.max(1, Math.floor(normalized.length / CHARS_PER_EDIT)) + 1;
+  columns.forEach(col => {
+    const distance = editDistance(normalized, normalizeHeader(col));
+    if (distance < bestDistance) {
+      best = col;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
+
+/**
+ * Re-keys the rows of one file onto the unified schema. Columns the file lacks become null.
+ */
+export const applySchemaMapping = (rows: ExcelDataRow[], plan: SchemaMergePlan, fileIndex: number): ExcelDataRow[] =>
+  rows.map(row => {
+    const mapped: ExcelDataRow = {};
+    plan.columns.forEach(col => {
+      const source = col.sources[fileIndex];
+      const value = source !== null ? row[source] : undefined;
+      mapped[col.name] = value === undefined ? null : value;
+    });
+    mapped.__sourceFile = row.__sourceFile;
+    mapped.__sourceSheet = row.__sourceSheet;
+    mapped.__sourceRow = row.__sourceRow;
+    return mapped;
+  });
+
+// --- Worker Protocol ---
+
+export type ParserRequest =
+  | { type: 'inspect'; id: number; file: File }
+  | { type: 'parse'; id: number; files: File[]; selections?: SheetSelection[][]; plan?: SchemaMergePlan }
+  | { type: 'release' };
+
+export type ParserResponse =
+  | { type: 'inspected'; id: number; model: WorkbookModel }
+  | { type: 'progress'; id: number; progress: ParseProgress }
+  | { type: 'parsed'; id: number; rows: ExcelDataRow[] }
+  | { type: 'error'; id: number; message: string };
@@ -2,23 +2,88 @@
 export interface ChartConfig {
   id: string;
   title: string;
-  type: 'bar' | 'line' | 'area' | 'pie' | 'scatter' | 'radar';
+  type: 'bar' | 'line' | 'area' | 'pie' | 'scatter' | 'radar' | 'combo' | 'pareto' | 'waterfall' | 'histogram' | 'heatmap';
   xAxisKey: string;
   dataKey: string;
   description: string;
   color?: string;
+  aggregation?: AggregationType;  // How dataKey values are combined per category
+  limit?: number;                 // Categories or latest periods shown (default 12, 0 = all)
+  showOthers?: boolean;           // Roll categories beyond the limit into an "Others" bucket
+  showAllPeriods?: boolean;       // Date axes show every period regardless of the limit
+  timeGrain?: TimeGrain;          // Date axes are bucketed into periods of this size
+  fiscalYearStart?: number;       // First month (1-12) of the fiscal year for the 'fiscalYear' grain
+  measures?: string[];            // More value columns plotted next to dataKey (e.g. Planned vs Completed Qty)
+  seriesKey?: string;             // Split-by column: one series of dataKey per value
+  stacked?: boolean;              // Stack multi-series bars and areas instead of grouping them
+  secondaryKey?: string;          // Combo charts: column drawn as a line against the right Y axis
+  secondaryAggregation?: AggregationType;
+  yAxisKey?: string;              // Heatmaps: date or category column for the rows
+  drillHierarchy?: string[];      // X-axis columns clicked through in turn, e.g. Region → Customer → Product
 }
 
+// A clicked chart value that filters the dashboard (a heatmap cell sets two at once)
+export interface DrillDownFilter {
+  column: string;
+  value: string;
+}
+
+// A dashboard filter condition, set from the data table and applied to every view
+export interface FilterCriterion {
+  id: string;
+  column: string;
+  operator: 'contains' | 'is' | 'gt' | 'lt' | 'gte' | 'lte' | 'eq' | 'startsWith' | 'endsWith' | 'between';
+  value: string;
+  secondValue?: string;
+}
+
+// One plotted series of a multi-series chart
+export interface ChartSeries {
+  key: string;           // Field on aggregated rows; generated, because recharts reads dots in keys as paths
+  label: string;
+  measure: string;       // Column aggregated for this series
+  aggregation: AggregationType;
+  seriesValue?: string;  // Split-by value this series is limited to
+  isRest?: boolean;      // Collects the split-by values without a series of their own ("Others")
+}
+
+export type TimeGrain = 'day' | 'week' | 'month' | 'quarter' | 'fiscalYear' | 'year';
+
+export type AggregationType = 'sum' | 'count' | 'countDistinct' | 'average' | 'min' | 'max' | 'median';
+
 export interface AnalysisResult {
   summary: string;
   keyInsights: string[];
   charts: ChartConfig[];
+  kpis?: KpiConfig[];  // Missing on analyses saved before KPI cards
+  offline?: boolean;   // Generated by the rule-based analyzer because no AI model was available
+}
+
+// A headline figure proposed by the AI; its value is computed locally from the filtered rows
+export interface KpiConfig {
+  id: string;
+  label: string;
+  column: string;
+  aggregation: AggregationType;
+  format?: 'number' | 'currency' | 'percent';
+  dateColumn?: string;   // Compares the latest period with the one before; the first date column when missing
+  timeGrain?: TimeGrain; // Period size for the comparison (default month)
 }
 
 export interface ExcelDataRow {
-  [key: string]: string | number | boolean | null;
+  // Provenance: where the row came from. Set by the parser, hidden from analysis columns.
+  __sourceFile?: string;
+  __sourceSheet?: string;
+  __sourceRow?: number;   // 1-based row number in the source sheet
+  // Set on subtotal and grand-total rows found inside the data; such rows are left out of aggregation
+  __rowKind?: RowKind;
+  [key: string]: string | number | boolean | null | undefined;
 }
 
+export type ProvenanceKey = '__sourceFile' | '__sourceSheet' | '__sourceRow';
+
+export type RowKind = 'subtotal' | 'total';
+
 export interface ChatAttachment {
   type: 'image';
   content: string; // Base64 string
@@ -43,6 +108,134 @@ export enum AppState {
 
 export type Language = 'zh-TW' | 'en-US' | 'vi-VN';
 
+// --- Workbook Inspection ---
+
+export interface SheetInfo {
+  name: string;
+  headerRowIndex: number;   // Detected header row (0-based, relative to the sheet's used range)
+  headerRowCount: number;   // Stacked header rows starting at headerRowIndex (merged group headers)
+  headers: string[];        // Column keys as they will appear on parsed rows
+  columnCount: number;
+  rowCount: number;         // Data rows below the detected header
+  totalRows: number;        // All rows in the used range, including title rows
+  score: number;            // Data richness score used to recommend a sheet
+  previewRows: string[][];  // First rows of the sheet with merged cells filled, for header row overrides
+}
+
+export interface WorkbookModel {
+  fileName: string;
+  sheets: SheetInfo[];
+  recommendedSheet: string;
+}
+
+export interface SheetSelection {
+  sheetName: string;
+  headerRowIndex: number;
+  headerRowCount: number;
+  headerNames?: string[];   // Flattened column names edited by the user, one per column
+}
+
+// --- Multi-File Schema Merge ---
+
+export type ColumnMatchType = 'exact' | 'normalized' | 'synonym' | 'manual' | 'missing';
+
+export interface UnifiedColumn {
+  name: string;                // Column name on merged rows
+  sources: (string | null)[];  // Source column per staged file (null when the file lacks it)
+  matchTypes: ColumnMatchType[];
+}
+
+export interface SchemaMergePlan {
+  fileNames: string[];
+  fileHeaders: string[][];
+  columns: UnifiedColumn[];
+}
+
+// --- Background Parsing ---
+
+export interface ParseProgress {
+  fileName: string;
+  fileIndex: number;   // 0-based index of the file being parsed
+  fileCount: number;
+  sheetName: string;
+  rowsParsed: number;  // Rows parsed so far in the current file
+}
+
+// --- Column Profiles ---
+
+// Semantic column types the user can assign; detection only distinguishes date, number and string
+export type ColumnType = 'date' | 'number' | 'currency' | 'percent' | 'identifier' | 'category';
+
+export type ColumnTypeOverrides = Record<string, ColumnType>;
+
+export interface ColumnTypeProfile {
+  fingerprint: string;   // Hash of the dataset's column names
+  columns: ColumnTypeOverrides;
+  updatedAt: number;
+}
+
+// --- Slicers and Saved Views ---
+
+export interface CategorySlicer {
+  column: string;
+  values: string[];   // Values kept; empty keeps every row
+}
+
+export interface SlicerState {
+  dateColumn?: string;
+  dateFrom?: string;  // yyyy-mm-dd, inclusive
+  dateTo?: string;    // yyyy-mm-dd, inclusive
+  categories: CategorySlicer[];
+}
+
+export interface DashboardView {
+  id: string;
+  name: string;
+  fingerprint: string;   // Schema fingerprint of the dataset the view was saved for
+  slicers: SlicerState;
+  filters: FilterCriterion[];
+  charts: ChartConfig[];
+  updatedAt: number;
+}
+
+// --- Pivot Tables ---
+
+export interface PivotValueField {
+  column: string;
+  aggregation: AggregationType;
+}
+
+export interface PivotFilter {
+  column: string;
+  values: string[];   // Values kept; empty keeps every row
+}
+
+export interface PivotConfig {
+  rows: string[];     // Row fields, outermost first; each level but the last gets subtotals
+  columns: string[];  // Column fields; their value combinations become column groups
+  values: PivotValueField[];
+  filters: PivotFilter[];
+}
+
+// --- Data Queries ---
+
+// A query the AI runs against all rows through function calling
+export interface DataQuery {
+  filters?: Omit<FilterCriterion, 'id'>[];
+  groupBy?: string[];        // No columns: one row aggregating every matching row
+  timeGrain?: TimeGrain;     // Date group-by columns are bucketed into periods of this size
+  measures: PivotValueField[];
+  order?: 'desc' | 'asc';    // Groups are sorted by the first measure
+  limit?: number;            // Top-N groups (default 20)
+}
+
+export interface DataQueryResult {
+  matchedRows: number;       // Rows left after the filters
+  groupCount: number;        // Groups before the limit
+  columns: string[];
+  rows: (string | number)[][];
+}
+
 // --- Configuration Features ---
 
 export interface AnalysisTemplate {
@@ -60,6 +253,17 @@ export interface AnalysisGroup {
   templateIds: string[]; // Changed from templateId to templateIds for multi-select
 }
 
+// --- AI Providers ---
+
+export type AIProviderType = 'gemini' | 'openai';
+
+export interface AIProviderSettings {
+  type: AIProviderType;
+  model: string;      // e.g. gemini-2.5-flash, or qwen2.5:14b on a local server
+  baseUrl?: string;   // OpenAI-compatible endpoints, e.g. http://llm-server:11434/v1
+  apiKey?: string;    // Stored in this browser only; Gemini falls back to GEMINI_API_KEY
+}
+
 // --- File System Access Types (Polyfill-like) ---
 export interface FileSystemHandle {
   kind: 'file' | 'directory';
@@ -1,10 +1,20 @@
 
 import * as XLSX from 'xlsx';
-import { ExcelDataRow, AnalysisResult, Language } from './types';
+import { ExcelDataRow, AnalysisResult, ChartConfig, Language, ColumnTypeOverrides, AggregationType, TimeGrain, ChartSeries, PivotConfig, PivotValueField, KpiConfig, DataQuery, DataQueryResult } from './types';
 import { translations } from './i18n';
 import { jsPDF } from 'jspdf';
 import html2canvas from 'html2canvas';
 import PptxGenJS from 'pptxgenjs';
+import { detectColumnType, parseDateSafe, getDataColumns, PROVENANCE_KEYS, ROW_KIND_KEY, isProvenanceKey, isIdentifierColumn, getPeriodKey, getPeriodStart, getNextPeriodStart, applyFilters } from './dataUtils';
+
+export {
+  detectColumnType, parseDateSafe, cleanAndEnrichData,
+  PROVENANCE_KEYS, isProvenanceKey, getDataColumns, stripProvenance,
+  ROW_KIND_KEY, markSummaryRows, isSummaryRow, getDetailRows,
+  isIdentifierColumn, getColumnKind, getSchemaFingerprint,
+  getPeriodKey, getPeriodStart, getNextPeriodStart, applyFilters,
+  getDistinctValues, applySlicers, buildDatasetProfile, getStratifiedSample
+} from './dataUtils';
 
 // Simple color palette for charts
 export const CHART_COLORS = [
@@ -66,199 +76,48 @@ export const PALETTES = {
   ]
 };
 
-const DATE_REGEX_8DIGIT = /^\d{8}$/;
-const DATE_REGEX_6DIGIT = /^(19|20)\d{2}(0[1-9]|1[0-2])$/; // YYYYMM
-
 /**
- * Helper to detect column type
+ * Display label for a column; provenance fields get a translated name.
  */
-export const detectColumnType = (data: ExcelDataRow[], column: string): 'date' | 'number' | 'string' => {
-  // 1. Force String for specific identifiers
-  const colLower = column.toLowerCase();
-  const stringKeywords = ['id', 'no', 'code', '單號', '編號', '料號', '工號', '客代', '廠商', '品號', '規格'];
-  if (stringKeywords.some(kw => colLower.includes(kw))) {
-    return 'string';
-  }
-
-  let numberCount = 0;
-  let dateCount = 0;
-  let sampleCount = 0;
-  const maxSamples = 100;
-
-  for (const row of data) {
-    if (sampleCount >= maxSamples) break;
-    const val = row[column];
-    if (val === null || val === undefined || val === '') continue;
-    
-    sampleCount++;
-    const strVal = String(val).trim();
-    
-    // Strict number check
-    if (!isNaN(Number(val)) && strVal !== '') {
-      numberCount++;
-    }
-    
-    // Date Check
-    if (DATE_REGEX_8DIGIT.test(strVal) || DATE_REGEX_6DIGIT.test(strVal)) {
-       dateCount++;
-    } 
-    else if (!isNaN(Date.parse(strVal)) && (strVal.includes('-') || strVal.includes('/'))) {
-       dateCount++;
-    }
-  }
-
-  if (sampleCount > 0 && dateCount / sampleCount > 0.8) return 'date';
-  if (sampleCount > 0 && numberCount / sampleCount > 0.9) return 'number';
-  return 'string';
-};
+export const getColumnLabel = (column: string, language: Language): string =>
+  isProvenanceKey(column) ? translations[language].provenance[column] : column;
 
 /**
- * Safe date parser
+ * Format a number with thousands separator.
  */
-export const parseDateSafe = (value: string): number => {
-    if (!value) return 0;
-    const strVal = String(value).trim();
-    
-    // Handle YYYYMMDD
-    if (DATE_REGEX_8DIGIT.test(strVal)) {
-      const y = parseInt(strVal.substring(0, 4));
-      const m = parseInt(strVal.substring(4, 6)) - 1;
-      const d = parseInt(strVal.substring(6, 8));
-      return new Date(y, m, d).getTime();
-    }
-    
-    // Handle YYYYMM (Assume 1st of month)
-    if (DATE_REGEX_6DIGIT.test(strVal)) {
-      const y = parseInt(strVal.substring(0, 4));
-      const m = parseInt(strVal.substring(4, 6)) - 1;
-      return new Date(y, m, 1).getTime();
-    }
-
-    return new Date(strVal).getTime();
+export const formatNumber = (value: number | string | null | undefined): string => {
+  if (value === null || value === undefined || value === '') return '';
+  const num = Number(value);
+  if (isNaN(num)) return String(value);
+  
+  return new Intl.NumberFormat('en-US', {
+    maximumFractionDigits: 2,
+  }).format(num);
 };
 
 /**
- * Clean and Enrich Data
- * 1. Fix invalid dates (e.g., 0025 -> 2025)
- * 2. Recalculate date differences if relevant columns exist
+ * Format a currency amount with two decimals.
  */
-export const cleanAndEnrichData = (data: ExcelDataRow[]): ExcelDataRow[] => {
-  if (!data || data.length === 0) return data;
-  
-  const headers = Object.keys(data[0]);
-  
-  // Detect date columns
-  const dateCols = headers.filter(h => detectColumnType(data, h) === 'date' || h.includes('日') || h.includes('Date'));
-  
-  // Specific columns for relative fixing
-  const docDateCol = headers.find(h => h.includes('單據日期') || h.includes('DocDate') || h.includes('OrderDate') || h.includes('開工日') || h.includes('開單日'));
-
-  // Detect Difference Columns (e.g. 差異天數)
-  const diffCol = headers.find(h => h.includes('差異') || h.includes('Diff'));
-  // Detect associated Date Columns for recalculation
-  // e.g. 預計(Planned) vs 實際(Actual) / 交貨(Delivery)
-  const plannedCol = headers.find(h => h.includes('預') || h.includes('Plan') || h.includes('Target'));
-  const actualCol = headers.find(h => (h.includes('實') || h.includes('Actual') || h.includes('交')) && h !== diffCol && h !== plannedCol);
-
-  return data.map(row => {
-    const newRow = { ...row };
-    let rowChanged = false;
-    let validDocYear = '';
-
-    // If we have a document date column, extract a valid year from it first
-    if (docDateCol) {
-        const val = String(newRow[docDateCol] || '').trim();
-        if (val.length === 8 && val.startsWith('20')) {
-            validDocYear = val.substring(0, 4);
-        } else if (val.includes('/') || val.includes('-')) {
-             const parts = val.split(/[-/]/);
-             if (parts[0].length === 4 && parts[0].startsWith('20')) {
-                 validDocYear = parts[0];
-             }
-        }
-    }
-
-    // 1. Fix Dates
-    dateCols.forEach(col => {
-      let val = String(newRow[col] || '').trim();
-      if (!val) return;
-
-      // Logic A: Fix 0025 -> 2025 (8 digit)
-      if (val.length === 8 && (val.startsWith('00') || val.startsWith('02'))) {
-         const yearPrefix = val.substring(0, 2);
-         if (yearPrefix === '00' || yearPrefix === '02') {
-             // If we have a valid doc year, prefer that for correction (e.g. 0202 -> 2025)
-             if (validDocYear) {
-                 newRow[col] = validDocYear + val.substring(4);
-             } else {
-                 // Fallback: Assume 20xx
-                 newRow[col] = '20' + val.substring(2);
-             }
-             rowChanged = true;
-         }
-      }
-      // Logic B: Fix 0025/MM/DD or 0202/MM/DD formats
-      else if ((val.startsWith('00') || val.startsWith('02')) && (val.includes('/') || val.includes('-'))) {
-         const parts = val.split(/[-/]/);
-         const yearPart = parts[0];
-         
-         if (yearPart.length === 4 && (yearPart.startsWith('00') || yearPart.startsWith('02'))) {
-             if (validDocYear) {
-                 parts[0] = validDocYear;
-             } else {
-                 parts[0] = '20' + yearPart.substring(2);
-             }
-             newRow[col] = parts.join('/');
-             rowChanged = true;
-         }
-      }
-      // Logic C: Planned < Doc Date fix (if column is likely planned date)
-      else if (docDateCol && col === plannedCol && validDocYear) {
-           const pDate = parseDateSafe(val);
-           const dDate = parseDateSafe(String(newRow[docDateCol]));
-           
-           // If planned date is earlier than doc date (and significant difference > 60 days, implying year error)
-           // We assume year typo
-           if (pDate > 0 && dDate > 0 && pDate < dDate) {
-               // Reconstruct date with doc year
-               // This handles 2023/12/31 vs 2024/01/01 typo cases
-               // We format it back to YYYY/MM/DD
-               const pObj = new Date(pDate);
-               const newDateStr = `${validDocYear}/${String(pObj.getMonth()+1).padStart(2,'0')}/${String(pObj.getDate()).padStart(2,'0')}`;
-               newRow[col] = newDateStr;
-               rowChanged = true;
-           }
-      }
-    });
-
-    // 2. Recalculate Difference if dates changed
-    if (rowChanged && diffCol && plannedCol && actualCol) {
-        const d1 = parseDateSafe(String(newRow[plannedCol]));
-        const d2 = parseDateSafe(String(newRow[actualCol]));
-        
-        if (d1 && d2) {
-            // Diff in Days
-            const diffTime = d2 - d1; 
-            const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
-            newRow[diffCol] = diffDays;
-        }
-    }
+export const formatCurrency = (value: number | string | null | undefined): string => {
+  if (value === null || value === undefined || value === '') return '';
+  const num = Number(value);
+  if (isNaN(num)) return String(value);
 
-    return newRow;
-  });
+  return new Intl.NumberFormat('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(num);
 };
 
 /**
- * Format a number with thousands separator.
+ * Format a percentage. Ratios stored as fractions (0.125) need a scale of 100.
  */
-export const formatNumber = (value: number | string | null | undefined): string => {
+export const formatPercent = (value: number | string | null | undefined, scale = 1): string => {
   if (value === null || value === undefined || value === '') return '';
   const num = Number(value);
   if (isNaN(num)) return String(value);
-  
-  return new Intl.NumberFormat('en-US', {
-    maximumFractionDigits: 2,
-  }).format(num);
+
+  return `${new Intl.NumberFormat('en-US', { maximumFractionDigits: 1 }).format(num * scale)}%`;
 };
 
 /**
@@ -276,116 +135,811 @@ export const formatCompactNumber = (value: number | string | null | undefined):
   }).format(num);
 };
 
+interface AggregateOptions {
+  columnTypes?: ColumnTypeOverrides;  // User-assigned column types, which decide the mode before keywords
+  aggregation?: AggregationType;      // Explicit function from the chart config; inferred when missing
+  limit?: number;                     // Categories or latest periods shown; 0 shows all
+  othersLabel?: string;               // When set, categories beyond the limit are rolled into one bucket with this name
+  allPeriods?: boolean;               // Date axes ignore the limit
+  timeGrain?: TimeGrain;              // Date axes are bucketed into periods, with empty periods filled in
+  fiscalYearStart?: number;           // First month (1-12) of the fiscal year
+  series?: ChartSeries[];             // Multi-series charts: each series becomes a field on the aggregated rows
+  seriesKey?: string;                 // Split-by column the series values come from
+}
+
+export const DEFAULT_CHART_LIMIT = 12;
+
+// Split-by values beyond this become "Others" (or are dropped), so legends stay readable
+const MAX_SERIES = 10;
+
+// Gap filling is skipped beyond this many periods (e.g. a stray 1900 date on a daily axis)
+const MAX_FILLED_PERIODS = 1000;
+
 /**
- * Aggregates data for charts.
+ * Whether the X-axis is a time axis, which keeps its periods in date order instead of ranking them.
  */
-export const aggregateData = (
-  data: ExcelDataRow[],
-  xAxisKey: string,
-  dataKey: string
-): any[] => {
-  const map = new Map<string, { sum: number; count: number }>();
-  
-  // 1. Determine Aggregation Mode
-  let mode: 'sum' | 'count' | 'average' = 'sum';
-  
+export const isDateAxis = (data: ExcelDataRow[], xAxisKey: string, columnTypes?: ColumnTypeOverrides): boolean => {
+  const xColType = detectColumnType(data.slice(0, 50), xAxisKey, columnTypes);
+  return xColType === 'date' || xAxisKey.toLowerCase().includes('date') || xAxisKey.toLowerCase().includes('日');
+};
+
+/**
+ * Aggregation for charts that don't specify one (analyses saved before the field existed):
+ * decided by the column type, then by keywords in the column name.
+ */
+export const inferAggregation = (data: ExcelDataRow[], dataKey: string, columnTypes?: ColumnTypeOverrides): AggregationType => {
   const keyLower = dataKey.toLowerCase();
-  
+  const valueType = columnTypes?.[dataKey];
+
+  // Logic for explicit column types
+  if (valueType) {
+    if (valueType === 'percent') return 'average';
+    return valueType === 'number' || valueType === 'currency' ? 'sum' : 'count';
+  }
   // Logic for Average
   if (keyLower.includes('rate') || keyLower.includes('percent') || keyLower.includes('avg') || keyLower.includes('yield') || keyLower.includes('率') || keyLower.includes('平均') || keyLower.includes('占比') || keyLower.includes('達成')) {
-    mode = 'average';
+    return 'average';
   }
   // Logic for Count (Explicit ID columns)
-  else if (keyLower.includes('id') || keyLower.includes('no') || keyLower.includes('code') || keyLower.includes('號') || keyLower.includes('單') || keyLower.includes('代碼')) {
-      mode = 'count';
-  }
+  if (isIdentifierColumn(dataKey)) return 'count';
 
   // Fallback: Check if content is non-numeric string (force count)
-  if (mode === 'sum') {
-    const firstValid = data.find(r => r[dataKey] !== null && r[dataKey] !== undefined);
-    if (firstValid) {
-       const val = firstValid[dataKey];
-       if (typeof val === 'string' && isNaN(Number(val))) {
-           mode = 'count';
-       }
+  const firstValid = data.find(r => r[dataKey] !== null && r[dataKey] !== undefined);
+  if (firstValid) {
+    const val = firstValid[dataKey];
+    if (typeof val === 'string' && isNaN(Number(val))) return 'count';
+  }
+  return 'sum';
+};
+
+interface AggregateBucket {
+  rows: number;
+  values: number[];       // Numeric values of the data column
+  distinct: Set<string>;  // Non-empty values, for count distinct
+}
+
+const createBucket = (): AggregateBucket => ({ rows: 0, values: [], distinct: new Set() });
+
+const mergeBucket = (target: AggregateBucket, source: AggregateBucket) => {
+  target.rows += source.rows;
+  target.values.push(...source.values);
+  source.distinct.forEach(value => target.distinct.add(value));
+};
+
+const addToBucket = (bucket: AggregateBucket, value: ExcelDataRow[string]) => {
+  bucket.rows++;
+  if (value === null || value === undefined || String(value).trim() === '') return;
+  bucket.distinct.add(String(value));
+  const num = parseFloat(String(value));
+  if (!isNaN(num)) bucket.values.push(num);
+};
+
+const summarizeBucket = (bucket: AggregateBucket, aggregation: AggregationType): number => {
+  const { values } = bucket;
+  switch (aggregation) {
+    case 'count': return bucket.rows;
+    case 'countDistinct': return bucket.distinct.size;
+    case 'sum': return values.reduce((sum, val) => sum + val, 0);
+    case 'average': return values.length > 0 ? values.reduce((sum, val) => sum + val, 0) / values.length : 0;
+    case 'min': return values.length > 0 ? values.reduce((min, val) => Math.min(min, val), Infinity) : 0;
+    case 'max': return values.length > 0 ? values.reduce((max, val) => Math.max(max, val), -Infinity) : 0;
+    case 'median': {
+      if (values.length === 0) return 0;
+      const sorted = [...values].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+    }
+  }
+};
+
+/**
+ * Applies an aggregation to a whole column, e.g. for the total row of an exported chart table.
+ */
+export const aggregateColumn = (data: ExcelDataRow[], dataKey: string, aggregation: AggregationType): number => {
+  const bucket = createBucket();
+  data.forEach(row => addToBucket(bucket, row[dataKey]));
+  return summarizeBucket(bucket, aggregation);
+};
+
+interface AggregateGroup {
+  total: AggregateBucket;     // dataKey over every row of the category; decides the ranking
+  series: AggregateBucket[];  // One bucket per chart series (none for single-series charts)
+}
+
+const createGroup = (seriesCount: number): AggregateGroup => ({
+  total: createBucket(),
+  series: Array.from({ length: seriesCount }, createBucket),
+});
+
+const mergeGroup = (target: AggregateGroup, source: AggregateGroup) => {
+  mergeBucket(target.total, source.total);
+  source.series.forEach((bucket, i) => mergeBucket(target.series[i], bucket));
+};
+
+/**
+ * Whether a row feeds a series: split-by series take the rows with their value,
+ * the "Others" series takes the rest, and measure series take every row.
+ */
+export const matchesSeries = (row: ExcelDataRow, series: ChartSeries, allSeries: ChartSeries[], seriesKey?: string): boolean => {
+  if (!seriesKey || (series.seriesValue === undefined && !series.isRest)) return true;
+  const value = String(row[seriesKey] ?? '');
+  if (!series.isRest) return value === series.seriesValue;
+  return !allSeries.some(s => s.seriesValue === value);
+};
+
+/**
+ * Series of a multi-series chart: one per split-by value (the top values by the chart's
+ * aggregation, the rest optionally rolled into "Others"), or one per measure.
+ * A chart with a single measure and no split-by column has none.
+ */
+export const getChartSeries = (
+  data: ExcelDataRow[],
+  dataKey: string,
+  options: {
+    measures?: string[];
+    seriesKey?: string;
+    aggregation?: AggregationType;
+    secondaryKey?: string;
+    secondaryAggregation?: AggregationType;
+    columnTypes?: ColumnTypeOverrides;
+    othersLabel?: string;
+  } = {}
+): ChartSeries[] => {
+  const { measures = [], seriesKey, secondaryKey, columnTypes, othersLabel } = options;
+  // An explicit aggregation applies to every series; otherwise each measure infers its own
+  const aggregationOf = (column: string) => options.aggregation || inferAggregation(data, column, columnTypes);
+
+  // Combo charts: dataKey on the left axis, the secondary column on the right, each with its own aggregation
+  if (secondaryKey) {
+    return [
+      { key: '__series_0', label: dataKey, measure: dataKey, aggregation: aggregationOf(dataKey) },
+      { key: '__series_1', label: secondaryKey, measure: secondaryKey, aggregation: options.secondaryAggregation || inferAggregation(data, secondaryKey, columnTypes) },
+    ];
+  }
+
+  if (seriesKey) {
+    const aggregation = aggregationOf(dataKey);
+    const ranked = aggregateData(data, seriesKey, dataKey, { aggregation, columnTypes, limit: 0 });
+    const series: ChartSeries[] = ranked.slice(0, MAX_SERIES).map((item, i) => ({
+      key: `__series_${i}`,
+      label: item.name,
+      measure: dataKey,
+      aggregation,
+      seriesValue: item.name,
+    }));
+    if (ranked.length > MAX_SERIES && othersLabel) {
+      series.push({ key: `__series_${series.length}`, label: othersLabel, measure: dataKey, aggregation, isRest: true });
     }
+    return series;
   }
 
+  const columns = Array.from(new Set([dataKey, ...measures]));
+  if (columns.length < 2) return [];
+  return columns.map((column, i) => ({ key: `__series_${i}`, label: column, measure: column, aggregation: aggregationOf(column) }));
+};
+
+/**
+ * Aggregates data for charts. Multi-series charts get one field per series on each row
+ * (wide rows), next to the dataKey total that decides ranking and limits.
+ */
+export const aggregateData = (
+  data: ExcelDataRow[],
+  xAxisKey: string,
+  dataKey: string,
+  options: AggregateOptions = {}
+): any[] => {
+  const { columnTypes, limit = DEFAULT_CHART_LIMIT, othersLabel, allPeriods, fiscalYearStart = 1, series = [], seriesKey } = options;
+  const isTimeSeries = isDateAxis(data, xAxisKey, columnTypes);
+  const timeGrain = isTimeSeries ? options.timeGrain : undefined;
+
+  // 1. Determine Aggregation Mode (series carry their own)
+  const mode = options.aggregation || inferAggregation(data, dataKey, columnTypes);
+
   // 2. Aggregate
+  const map = new Map<string, AggregateGroup>();
+  let firstPeriod: Date | null = null;
+  let lastPeriod: Date | null = null;
   data.forEach((row) => {
     const xValue = row[xAxisKey];
-    const yValue = row[dataKey];
 
     // Skip if xValue is missing
     if (xValue === undefined || xValue === null) return;
 
-    const key = String(xValue);
-    let numVal = 0;
-
-    if (mode === 'count') {
-      numVal = 1; // Count existence
-    } else {
-      numVal = parseFloat(String(yValue));
-      if (isNaN(numVal)) numVal = 0;
+    let key = String(xValue);
+    if (timeGrain) {
+      // Rows whose date can't be parsed have no period to go into
+      const time = parseDateSafe(key);
+      if (!time) return;
+      const start = getPeriodStart(new Date(time), timeGrain, fiscalYearStart);
+      if (!firstPeriod || start < firstPeriod) firstPeriod = start;
+      if (!lastPeriod || start > lastPeriod) lastPeriod = start;
+      key = getPeriodKey(start, timeGrain, fiscalYearStart);
     }
-
-    const current = map.get(key) || { sum: 0, count: 0 };
-    map.set(key, {
-      sum: current.sum + numVal,
-      count: current.count + 1
+    let group = map.get(key);
+    if (!group) {
+      group = createGroup(series.length);
+      map.set(key, group);
+    }
+    addToBucket(group.total, row[dataKey]);
+    series.forEach((s, i) => {
+      if (matchesSeries(row, s, series, seriesKey)) addToBucket(group!.series[i], row[s.measure]);
     });
   });
 
-  // 3. Finalize results
-  const result = Array.from(map.entries())
-    .map(([name, stat]) => {
-      let finalValue = stat.sum;
-      
-      if (mode === 'average' && stat.count > 0) {
-        finalValue = stat.sum / stat.count;
-      }
-
-      return {
-        [xAxisKey]: name,
-        [dataKey]: finalValue,
-        name: name,
-        value: finalValue,
-      };
+  const toPoint = (name: string, group: AggregateGroup) => {
+    const finalValue = summarizeBucket(group.total, mode);
+    const point: Record<string, string | number> = {
+      [xAxisKey]: name,
+      [dataKey]: finalValue,
+      name: name,
+      value: finalValue,
+    };
+    series.forEach((s, i) => {
+      point[s.key] = summarizeBucket(group.series[i], s.aggregation);
     });
+    return point;
+  };
 
-  // 4. Sort and Slice
-  // Check if X-Axis is likely a Date/Time
-  const xColType = detectColumnType(data.slice(0, 50), xAxisKey);
-  
-  if (xColType === 'date' || xAxisKey.toLowerCase().includes('date') || xAxisKey.toLowerCase().includes('日')) {
-      // For Time Series: Sort by Date Descending (to find latest), Slice 12, then Reverse for Chart
-      return result.sort((a, b) => {
-          const keyA = String(a.name);
-          const keyB = String(b.name);
-          // Try parse
-          const dateA = parseDateSafe(keyA) || keyA;
-          const dateB = parseDateSafe(keyB) || keyB;
-          if (dateA > dateB) return -1;
-          if (dateA < dateB) return 1;
-          return 0;
-      })
-      .slice(0, 12)
-      .sort((a, b) => {
-          // Sort back to Ascending for display
-          const keyA = String(a.name);
-          const keyB = String(b.name);
+  // 3. Sort and Limit
+  if (timeGrain && firstPeriod && lastPeriod) {
+      // Walk every period in the range so gaps show up as empty instead of being skipped
+      const periods: string[] = [];
+      for (let start: Date = firstPeriod; start <= lastPeriod && periods.length <= MAX_FILLED_PERIODS; start = getNextPeriodStart(start, timeGrain)) {
+          periods.push(getPeriodKey(start, timeGrain, fiscalYearStart));
+      }
+      const filled = periods.length <= MAX_FILLED_PERIODS ? periods : Array.from(map.keys()).sort();
+      const shown = allPeriods || limit <= 0 ? filled : filled.slice(-limit);
+      return shown.map(name => toPoint(name, map.get(name) || createGroup(series.length)));
+  }
+
+  if (isTimeSeries) {
+      // For Time Series: keep the latest periods, in ascending order for display
+      const periods = Array.from(map.keys()).sort((keyA, keyB) => {
           const dateA = parseDateSafe(keyA) || keyA;
           const dateB = parseDateSafe(keyB) || keyB;
-           if (dateA > dateB) return 1;
+          if (dateA > dateB) return 1;
           if (dateA < dateB) return -1;
           return 0;
       });
-  } else {
-      // For Categories: Sort by Value Descending (Top N)
-      return result
-        .sort((a, b) => b.value - a.value)
-        .slice(0, 12);
+      const shown = allPeriods || limit <= 0 ? periods : periods.slice(-limit);
+      return shown.map(name => toPoint(name, map.get(name)!));
+  }
+
+  // For Categories: Sort by Value Descending (Top N)
+  const ranked = Array.from(map.entries())
+    .map(([name, group]) => ({ name, group, value: summarizeBucket(group.total, mode) }))
+    .sort((a, b) => b.value - a.value);
+  if (limit <= 0 || ranked.length <= limit) return ranked.map(item => toPoint(item.name, item.group));
+
+  const top = ranked.slice(0, limit).map(item => toPoint(item.name, item.group));
+  if (!othersLabel) return top;
+
+  // Merge the remaining buckets so "Others" uses the same aggregation (e.g. a true average)
+  const others = createGroup(series.length);
+  ranked.slice(limit).forEach(({ group }) => mergeGroup(others, group));
+  return [...top, toPoint(othersLabel, others)];
+};
+
+// --- Analytical Chart Types ---
+
+// Fields the pareto, waterfall and histogram builders add to chart rows
+export const CHART_FIELDS = {
+  cumulative: '__cumulative',  // Pareto: running share of the total (0-1)
+  base: '__base',              // Waterfall: invisible bar the step floats on
+  delta: '__delta',            // Waterfall: height of the visible bar
+  running: '__running',        // Waterfall: running total after the step
+  step: '__step',              // Waterfall: 'start' | 'increase' | 'decrease' | 'end'
+  count: '__count',            // Histogram: rows in the bin
+} as const;
+
+export type WaterfallStep = 'start' | 'increase' | 'decrease' | 'end';
+
+// Histogram bin count bounds (Sturges' rule picks a count in between)
+const MIN_HISTOGRAM_BINS = 5;
+const MAX_HISTOGRAM_BINS = 30;
+
+// Heatmap rows beyond this are dropped (top values, or the latest dates)
+export const MAX_HEATMAP_ROWS = 20;
+
+/**
+ * Pareto: categories by descending value with their cumulative share of the total.
+ * An "Others" bucket stays last, as it is not a category of its own.
+ */
+export const buildParetoData = (points: any[], othersLabel?: string): any[] => {
+  const others = points.filter(p => othersLabel && p.name === othersLabel);
+  const sorted = [...points.filter(p => !others.includes(p)).sort((a, b) => b.value - a.value), ...others];
+  const total = sorted.reduce((sum, p) => sum + (Number(p.value) || 0), 0);
+  let running = 0;
+  return sorted.map(p => {
+    running += Number(p.value) || 0;
+    return { ...p, [CHART_FIELDS.cumulative]: total ? running / total : 0 };
+  });
+};
+
+/**
+ * Waterfall (bridge): each category is a step from the previous running total, followed by
+ * an end bar with the final total. Steps keep the order they first appear in the data.
+ */
+export const buildWaterfallData = (
+  data: ExcelDataRow[],
+  xAxisKey: string,
+  dataKey: string,
+  endLabel: string,
+  options: AggregateOptions = {}
+): any[] => {
+  const points = aggregateData(data, xAxisKey, dataKey, { ...options, limit: 0, othersLabel: undefined, series: undefined });
+  if (!isDateAxis(data, xAxisKey, options.columnTypes) && !options.timeGrain) {
+    const firstSeen = new Map<string, number>();
+    data.forEach((row, i) => {
+      const key = String(row[xAxisKey] ?? '');
+      if (!firstSeen.has(key)) firstSeen.set(key, i);
+    });
+    points.sort((a, b) => (firstSeen.get(a.name) ?? 0) - (firstSeen.get(b.name) ?? 0));
   }
+
+  let running = 0;
+  const steps = points.map((p, i) => {
+    const start = running;
+    running += Number(p.value) || 0;
+    const step: WaterfallStep = i === 0 ? 'start' : p.value >= 0 ? 'increase' : 'decrease';
+    return {
+      ...p,
+      [CHART_FIELDS.base]: Math.min(start, running),
+      [CHART_FIELDS.delta]: Math.abs(running - start),
+      [CHART_FIELDS.running]: running,
+      [CHART_FIELDS.step]: step,
+    };
+  });
+  if (steps.length === 0) return steps;
+
+  return [...steps, {
+    [xAxisKey]: endLabel,
+    [dataKey]: running,
+    name: endLabel,
+    value: running,
+    [CHART_FIELDS.base]: Math.min(0, running),
+    [CHART_FIELDS.delta]: Math.abs(running),
+    [CHART_FIELDS.running]: running,
+    [CHART_FIELDS.step]: 'end' as WaterfallStep,
+  }];
+};
+
+// Rounds a bin width up to 1, 2 or 5 times a power of ten
+const niceStep = (raw: number): number => {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  return ([1, 2, 5, 10].find(f => f * magnitude >= raw) || 10) * magnitude;
+};
+
+/**
+ * Histogram: rows counted into equal-width bins of a numeric column.
+ */
+export const buildHistogramData = (data: ExcelDataRow[], column: string): any[] => {
+  const values = data.map(row => parseFloat(String(row[column]))).filter(num => isFinite(num));
+  if (values.length === 0) return [];
+
+  const min = values.reduce((a, b) => Math.min(a, b), Infinity);
+  const max = values.reduce((a, b) => Math.max(a, b), -Infinity);
+  const binCount = Math.min(MAX_HISTOGRAM_BINS, Math.max(MIN_HISTOGRAM_BINS, Math.ceil(Math.log2(values.length) + 1)));
+  const width = max > min ? niceStep((max - min) / binCount) : 1;
+  const start = Math.floor(min / width) * width;
+  const bins = Math.max(1, Math.floor((max - start) / width) + 1);
+
+  const counts = new Array(bins).fill(0);
+  values.forEach(num => {
+    counts[Math.max(0, Math.min(bins - 1, Math.floor((num - start) / width)))]++;
+  });
+
+  return counts.map((count, i) => {
+    const lower = start + i * width;
+    const label = `${formatCompactNumber(lower)} – ${formatCompactNumber(lower + width)}`;
+    return { name: label, value: count, [CHART_FIELDS.count]: count };
+  });
+};
+
+export interface HeatmapData {
+  xLabels: string[];
+  yLabels: string[];
+  values: (number | null)[][];  // values[row][column]; null where no rows fall in the cell
+  min: number;
+  max: number;
+}
+
+/**
+ * Heatmap: dataKey aggregated per cell of two columns. Columns follow the chart's X-axis
+ * (limit and time grain included); rows are the top Y values, or the latest ones for dates.
+ */
+export const buildHeatmapData = (
+  data: ExcelDataRow[],
+  xAxisKey: string,
+  yAxisKey: string,
+  dataKey: string,
+  options: AggregateOptions = {}
+): HeatmapData => {
+  const aggregation = options.aggregation || inferAggregation(data, dataKey, options.columnTypes);
+  const yLabels: string[] = aggregateData(data, yAxisKey, dataKey, { columnTypes: options.columnTypes, aggregation, limit: MAX_HEATMAP_ROWS })
+    .map(item => item.name);
+
+  // Each row is a split-by series; a row count per cell tells empty cells from zeros
+  const valueSeries: ChartSeries[] = yLabels.map((label, i) => ({ key: `__series_${i}`, label, measure: dataKey, aggregation, seriesValue: label }));
+  const countSeries: ChartSeries[] = yLabels.map((label, i) => ({ key: `__rows_${i}`, label, measure: dataKey, aggregation: 'count', seriesValue: label }));
+  const points = aggregateData(data, xAxisKey, dataKey, {
+    ...options,
+    aggregation,
+    othersLabel: undefined,
+    series: [...valueSeries, ...countSeries],
+    seriesKey: yAxisKey,
+  });
+
+  const values = yLabels.map((_, row) => points.map(p => p[countSeries[row].key] > 0 ? p[valueSeries[row].key] as number : null));
+  const filled = values.flat().filter((value): value is number => value !== null);
+  return {
+    xLabels: points.map(p => String(p.name)),
+    yLabels,
+    values,
+    min: filled.length > 0 ? filled.reduce((a, b) => Math.min(a, b), Infinity) : 0,
+    max: filled.length > 0 ? filled.reduce((a, b) => Math.max(a, b), -Infinity) : 0,
+  };
+};
+
+export interface ChartTable {
+  headers: string[];
+  rows: (string | number)[][];  // Ends with a total row where a total makes sense
+}
+
+/**
+ * The numbers behind a chart as a table, for the Excel and PowerPoint exports.
+ */
+export const buildChartTable = (
+  data: ExcelDataRow[],
+  chart: ChartConfig,
+  language: Language,
+  columnTypes?: ColumnTypeOverrides
+): ChartTable => {
+  const t = translations[language];
+  const aggregation = chart.aggregation || inferAggregation(data, chart.dataKey, columnTypes);
+  const valueHeader = `${chart.dataKey} (${t.aggregations[aggregation]})`;
+  const othersLabel = chart.showOthers ? t.othersBucket : undefined;
+  const options: AggregateOptions = {
+    columnTypes,
+    aggregation,
+    limit: chart.limit,
+    othersLabel,
+    allPeriods: chart.showAllPeriods,
+    timeGrain: chart.timeGrain,
+    fiscalYearStart: chart.fiscalYearStart,
+  };
+
+  if (chart.type === 'histogram') {
+    const bins = buildHistogramData(data, chart.dataKey);
+    return {
+      headers: [chart.dataKey, t.aggregations.count],
+      rows: [...bins.map(bin => [bin.name, bin.value]), ["Total", bins.reduce((sum, bin) => sum + bin.value, 0)]],
+    };
+  }
+
+  if (chart.type === 'heatmap' && chart.yAxisKey) {
+    // Grid layout: one row per Y value, one column per X value
+    const heatmap = buildHeatmapData(data, chart.xAxisKey, chart.yAxisKey, chart.dataKey, options);
+    return {
+      headers: [`${chart.yAxisKey} / ${chart.xAxisKey}`, ...heatmap.xLabels],
+      rows: heatmap.yLabels.map((label, row) => [label, ...heatmap.values[row].map(value => value ?? '')]),
+    };
+  }
+
+  if (chart.type === 'waterfall') {
+    // The end bar already is the total
+    const steps = buildWaterfallData(data, chart.xAxisKey, chart.dataKey, t.waterfallEnd, options);
+    return {
+      headers: [chart.xAxisKey, valueHeader, t.runningTotal],
+      rows: steps.map(step => [step.name, step.value, step[CHART_FIELDS.running]]),
+    };
+  }
+
+  // The total applies the chart's function to all rows (an average of averages would be wrong)
+  if (chart.type === 'pareto') {
+    const points = buildParetoData(aggregateData(data, chart.xAxisKey, chart.dataKey, options), othersLabel);
+    return {
+      headers: [chart.xAxisKey, valueHeader, t.cumulativePercent],
+      rows: [
+        ...points.map(p => [p.name, p.value, Math.round(p[CHART_FIELDS.cumulative] * 1000) / 10]),
+        ["Total", aggregateColumn(data, chart.dataKey, aggregation)],
+      ],
+    };
+  }
+
+  const series = getChartSeries(data, chart.dataKey, {
+    measures: chart.measures,
+    seriesKey: chart.seriesKey,
+    aggregation: chart.aggregation,
+    secondaryKey: chart.type === 'combo' ? chart.secondaryKey : undefined,
+    secondaryAggregation: chart.secondaryAggregation,
+    columnTypes,
+    othersLabel,
+  });
+  const aggData = aggregateData(data, chart.xAxisKey, chart.dataKey, { ...options, series, seriesKey: chart.seriesKey });
+
+  if (series.length > 0) {
+    // Wide table: one column per series
+    return {
+      headers: [chart.xAxisKey, ...series.map(s => `${s.label} (${t.aggregations[s.aggregation]})`)],
+      rows: [
+        ...aggData.map(item => [item[chart.xAxisKey], ...series.map(s => item[s.key])]),
+        ["Total", ...series.map(s =>
+          aggregateColumn(data.filter(row => matchesSeries(row, s, series, chart.seriesKey)), s.measure, s.aggregation)
+        )],
+      ],
+    };
+  }
+
+  return {
+    headers: [chart.xAxisKey, valueHeader],
+    rows: [
+      ...aggData.map(item => [item[chart.xAxisKey], item[chart.dataKey]]),
+      ["Total", aggregateColumn(data, chart.dataKey, aggregation)],
+    ],
+  };
+};
+
+// --- KPI Cards ---
+
+export interface KpiResult {
+  value: number;       // Aggregation over all rows
+  period?: string;     // Latest period in the date column, e.g. 2024-06
+  current?: number;    // Value for the latest period
+  previous?: number;   // Value for the period before it; missing when it has no rows
+  change?: number;     // (current - previous) / |previous|; missing when there is nothing to compare
+}
+
+/**
+ * A KPI computed from the rows. With a date column, the latest period is also compared
+ * with the one before it (period over period).
+ */
+export const computeKpi = (data: ExcelDataRow[], kpi: KpiConfig, columnTypes?: ColumnTypeOverrides): KpiResult => {
+  const value = aggregateColumn(data, kpi.column, kpi.aggregation);
+  const columns = getDataColumns(data);
+  const sample = data.slice(0, 200);
+  const dateColumn = kpi.dateColumn && columns.includes(kpi.dateColumn)
+    ? kpi.dateColumn
+    : columns.find(column => detectColumnType(sample, column, columnTypes) === 'date');
+  if (!dateColumn) return { value };
+
+  const grain = kpi.timeGrain || 'month';
+  const dated = data
+    .map(row => ({ row, time: parseDateSafe(String(row[dateColumn] ?? '')) }))
+    .filter(item => !isNaN(item.time) && item.time !== 0);
+  if (dated.length === 0) return { value };
+
+  const latest = dated.reduce((max, item) => Math.max(max, item.time), -Infinity);
+  const currentStart = getPeriodStart(new Date(latest), grain).getTime();
+  const previousStart = getPeriodStart(new Date(currentStart - 1), grain).getTime();
+  const currentRows = dated.filter(item => item.time >= currentStart).map(item => item.row);
+  const previousRows = dated.filter(item => item.time >= previousStart && item.time < currentStart).map(item => item.row);
+
+  const current = aggregateColumn(currentRows, kpi.column, kpi.aggregation);
+  const result: KpiResult = { value, period: getPeriodKey(new Date(latest), grain), current };
+  if (previousRows.length === 0) return result;
+
+  const previous = aggregateColumn(previousRows, kpi.column, kpi.aggregation);
+  return { ...result, previous, change: previous !== 0 ? (current - previous) / Math.abs(previous) : undefined };
+};
+
+// --- Pivot Tables ---
+
+// Leaf rows and column groups beyond these are dropped; totals still cover every row
+export const MAX_PIVOT_ROWS = 500;
+export const MAX_PIVOT_COLUMNS = 50;
+
+export interface PivotValueColumn {
+  columnKey: string[];  // Values of the column fields; empty for the total column
+  value: PivotValueField;
+  label: string;
+  isTotal: boolean;
+}
+
+export interface PivotTableRow {
+  labels: string[];           // One per row field; subtotal and total rows name themselves
+  values: (number | null)[];  // One per value column; null where no rows fall in the cell
+  kind: 'detail' | 'subtotal' | 'total';
+}
+
+export interface PivotTable {
+  rowHeaders: string[];
+  columns: PivotValueColumn[];
+  rows: PivotTableRow[];
+  truncated: boolean;
+}
+
+const KEY_SEPARATOR = '\u0000';
+
+// Cell ids keep the prefix length, so a blank value can't be mistaken for a total
+const rowIdOf = (rowKey: string[]) => `${rowKey.length}${KEY_SEPARATOR}${rowKey.join(KEY_SEPARATOR)}`;
+const columnIdOf = (columnKey: string[], isTotal: boolean) => isTotal ? '' : `#${columnKey.join(KEY_SEPARATOR)}`;
+
+const compareKeys = (a: string[], b: string[]): number => {
+  for (let i = 0; i < a.length; i++) {
+    const order = a[i].localeCompare(b[i], undefined, { numeric: true });
+    if (order !== 0) return order;
+  }
+  return 0;
+};
+
+/**
+ * Pivot table: values aggregated per row and column group, with a subtotal after each
+ * group of an outer row field, a total column when there are column fields, and a grand total row.
+ */
+export const buildPivotTable = (data: ExcelDataRow[], config: PivotConfig, language: Language): PivotTable => {
+  const t = translations[language];
+  const { rows: rowFields, columns: columnFields, values } = config;
+  const filtered = data.filter(row => config.filters.every(filter =>
+    filter.values.length === 0 || filter.values.includes(String(row[filter.column] ?? ''))
+  ));
+  const keyOf = (row: ExcelDataRow, fields: string[]) => fields.map(field => String(row[field] ?? ''));
+
+  const columnKeys = new Map<string, string[]>();
+  filtered.forEach(row => {
+    const key = keyOf(row, columnFields);
+    columnKeys.set(key.join(KEY_SEPARATOR), key);
+  });
+  const shownColumnKeys = columnFields.length === 0 ? [] : Array.from(columnKeys.values()).sort(compareKeys).slice(0, MAX_PIVOT_COLUMNS);
+  const shownColumnIds = new Set(shownColumnKeys.map(key => columnIdOf(key, false)));
+
+  // Buckets per row prefix (every level, down to the grand total) and column group
+  const cells = new Map<string, AggregateBucket[]>();
+  const leafKeys = new Map<string, string[]>();
+  const addToCell = (rowId: string, columnId: string, row: ExcelDataRow) => {
+    const id = `${rowId}${KEY_SEPARATOR}${KEY_SEPARATOR}${columnId}`;
+    let buckets = cells.get(id);
+    if (!buckets) {
+      buckets = values.map(createBucket);
+      cells.set(id, buckets);
+    }
+    values.forEach((value, i) => addToBucket(buckets![i], row[value.column]));
+  };
+  filtered.forEach(row => {
+    const rowKey = keyOf(row, rowFields);
+    const columnId = columnIdOf(keyOf(row, columnFields), false);
+    leafKeys.set(rowIdOf(rowKey), rowKey);
+    for (let level = 0; level <= rowFields.length; level++) {
+      const rowId = rowIdOf(rowKey.slice(0, level));
+      addToCell(rowId, columnIdOf([], true), row);
+      if (shownColumnIds.has(columnId)) addToCell(rowId, columnId, row);
+    }
+  });
+
+  const valueLabel = (value: PivotValueField) => `${value.column} (${t.aggregations[value.aggregation]})`;
+  const groupColumns = (columnKey: string[], isTotal: boolean): PivotValueColumn[] => values.map(value => {
+    const groupLabel = isTotal ? t.pivotGrandTotal : columnKey.join(' / ');
+    return {
+      columnKey,
+      value,
+      isTotal,
+      label: columnFields.length === 0 ? valueLabel(value) : values.length > 1 ? `${groupLabel} · ${valueLabel(value)}` : groupLabel,
+    };
+  });
+  const columns = [...shownColumnKeys.flatMap(key => groupColumns(key, false)), ...groupColumns([], true)];
+
+  const rowValues = (rowKey: string[]): (number | null)[] => columns.map(column => {
+    const id = `${rowIdOf(rowKey)}${KEY_SEPARATOR}${KEY_SEPARATOR}${columnIdOf(column.columnKey, column.isTotal)}`;
+    const bucket = cells.get(id)?.[values.indexOf(column.value)];
+    return bucket && bucket.rows > 0 ? summarizeBucket(bucket, column.value.aggregation) : null;
+  });
+
+  const sortedLeaves = Array.from(leafKeys.values()).sort(compareKeys);
+  const leaves = sortedLeaves.slice(0, MAX_PIVOT_ROWS);
+  const rows: PivotTableRow[] = [];
+  const emitGroup = (prefix: string[], groupLeaves: string[][]) => {
+    const level = prefix.length;
+    if (level === rowFields.length) {
+      rows.push({ labels: prefix, values: rowValues(prefix), kind: 'detail' });
+      return;
+    }
+    const groups = new Map<string, string[][]>();
+    groupLeaves.forEach(leaf => {
+      const group = groups.get(leaf[level]) || [];
+      group.push(leaf);
+      groups.set(leaf[level], group);
+    });
+    groups.forEach((members, label) => emitGroup([...prefix, label], members));
+    if (level > 0) {
+      const labels = [...prefix.slice(0, -1), `${prefix[level - 1]} ${t.pivotSubtotal}`, ...new Array(rowFields.length - level).fill('')];
+      rows.push({ labels, values: rowValues(prefix), kind: 'subtotal' });
+    }
+  };
+  if (rowFields.length > 0) emitGroup([], leaves);
+  rows.push({ labels: [t.pivotGrandTotal, ...new Array(Math.max(0, rowFields.length - 1)).fill('')], values: rowValues([]), kind: 'total' });
+
+  return {
+    rowHeaders: rowFields.length > 0 ? rowFields : [''],
+    columns,
+    rows,
+    truncated: sortedLeaves.length > leaves.length,
+  };
+};
+
+/**
+ * Exports a pivot table as its own Excel sheet, laid out as shown
+ */
+export const exportPivotToExcel = (pivot: PivotTable, filename: string, language: Language) => {
+  const t = translations[language];
+  const workbook = XLSX.utils.book_new();
+  const sheet = XLSX.utils.aoa_to_sheet([
+    [...pivot.rowHeaders, ...pivot.columns.map(column => column.label)],
+    ...pivot.rows.map(row => [...row.labels, ...row.values]),
+  ]);
+  sheet['!cols'] = [
+    ...pivot.rowHeaders.map(() => ({ wch: 24 })),
+    ...pivot.columns.map(column => ({ wch: Math.min(30, Math.max(12, column.label.length + 2)) })),
+  ];
+  XLSX.utils.book_append_sheet(workbook, sheet, t.sheetPivot);
+  XLSX.writeFile(workbook, filename);
+};
+
+// --- Data Queries ---
+
+const DEFAULT_QUERY_LIMIT = 20;
+const MAX_QUERY_LIMIT = 100;
+
+/**
+ * Filter, group, aggregate and rank all rows, for the AI's query function. Unknown columns
+ * throw, so the model can correct the call.
+ */
+export const runDataQuery = (data: ExcelDataRow[], query: DataQuery, columnTypes?: ColumnTypeOverrides): DataQueryResult => {
+  const columns = getDataColumns(data);
+  const filters = query.filters || [];
+  const groupBy = query.groupBy || [];
+  const measures = query.measures || [];
+  [...filters.map(f => f.column), ...groupBy, ...measures.map(m => m.column)].forEach(column => {
+    if (!columns.includes(column)) throw new Error(`Unknown column: ${column}`);
+  });
+  if (measures.length === 0) throw new Error("At least one measure is required.");
+
+  const filtered = applyFilters(data, filters.map((f, i) => ({ ...f, id: String(i) })), columnTypes);
+  const sample = data.slice(0, 50);
+  const dateGroups = groupBy.map(column => !!query.timeGrain && detectColumnType(sample, column, columnTypes) === 'date');
+
+  const groups = new Map<string, { labels: string[]; buckets: AggregateBucket[] }>();
+  filtered.forEach(row => {
+    const labels = groupBy.map((column, i) => {
+      const val = row[column];
+      if (dateGroups[i]) {
+        const time = parseDateSafe(String(val ?? ''));
+        if (time && !isNaN(time)) return getPeriodKey(new Date(time), query.timeGrain!);
+      }
+      return val === null || val === undefined ? '' : String(val);
+    });
+    const id = labels.join(KEY_SEPARATOR);
+    let group = groups.get(id);
+    if (!group) {
+      group = { labels, buckets: measures.map(() => createBucket()) };
+      groups.set(id, group);
+    }
+    measures.forEach((m, i) => addToBucket(group!.buckets[i], row[m.column]));
+  });
+
+  const direction = query.order === 'asc' ? 1 : -1;
+  const rows = Array.from(groups.values())
+    .map(group => ({ labels: group.labels, values: group.buckets.map((bucket, i) => summarizeBucket(bucket, measures[i].aggregation)) }))
+    .sort((a, b) => direction * (a.values[0] - b.values[0]));
+  const limit = Math.min(query.limit || DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT);
+
+  return {
+    matchedRows: filtered.length,
+    groupCount: rows.length,
+    columns: [...groupBy, ...measures.map(m => `${m.aggregation}(${m.column})`)],
+    rows: rows.slice(0, limit).map(row => [...row.labels, ...row.values.map(value => Math.round(value * 10000) / 10000)]),
+  };
+};
+
+/**
+ * Data columns of every row, in first-seen order. Rows of different sheets may not all have the
+ * same keys, so unlike getDataColumns this doesn't stop at the first row.
+ */
+const getExportColumns = (data: ExcelDataRow[]): string[] => {
+  const columns = new Set(getDataColumns(data));
+  data.forEach(row => Object.keys(row).forEach(key => {
+    if (!isProvenanceKey(key) && key !== ROW_KIND_KEY) columns.add(key);
+  }));
+  return Array.from(columns);
 };
 
 /**
@@ -394,7 +948,7 @@ export const aggregateData = (
 export const exportToCSV = (data: ExcelDataRow[], filename: string) => {
   if (!data || !data.length) return;
 
-  const headers = Object.keys(data[0]);
+  const headers = getExportColumns(data);
   const csvContent = [
     headers.join(','),
     ...data.map(row =>
@@ -445,7 +999,8 @@ export const exportToExcel = (
   data: ExcelDataRow[], 
   filename: string,
   analysis: AnalysisResult | null,
-  language: Language
+  language: Language,
+  columnTypes?: ColumnTypeOverrides
 ) => {
   if (!data || !data.length) return;
   
@@ -495,16 +1050,9 @@ export const exportToExcel = (
         ws2_data.push([`CHART #${index + 1}: ${chart.title}`]);
         ws2_data.push([`Analysis: ${chart.description}`]);
         ws2_data.push([]); 
-        ws2_data.push([chart.xAxisKey, chart.dataKey]); 
-
-        const aggData = aggregateData(data, chart.xAxisKey, chart.dataKey);
-        
-        aggData.forEach(item => {
-            ws2_data.push([item[chart.xAxisKey], item[chart.dataKey]]);
-        });
-
-        const total = aggData.reduce((sum, item) => sum + (item[chart.dataKey] || 0), 0);
-        ws2_data.push(["Total", total]);
+        const table = buildChartTable(data, chart, language, columnTypes);
+        ws2_data.push(table.headers);
+        table.rows.forEach(row => ws2_data.push(row));
         
         ws2_data.push([]);
         ws2_data.push([]);
@@ -517,9 +1065,14 @@ export const exportToExcel = (
     XLSX.utils.book_append_sheet(workbook, sheet2, t.sheetCharts);
   }
 
-  // Sheet 3: Raw Data
-  const sheet3 = XLSX.utils.json_to_sheet(data);
-  const colWidths = Object.keys(data[0] || {}).map(key => ({
+  // Sheet 3: Raw Data (provenance fields exported under translated column names)
+  const rawColumns = [...getExportColumns(data), ...PROVENANCE_KEYS.filter(key => data.some(row => row[key] !== undefined))];
+  const rawHeaders = rawColumns.map(key => getColumnLabel(key, language));
+  const sheet3 = XLSX.utils.aoa_to_sheet([
+    rawHeaders,
+    ...data.map(row => rawColumns.map(key => row[key] ?? null)),
+  ]);
+  const colWidths = rawHeaders.map(key => ({
     wch: Math.min(30, Math.max(10, key.length + 5))
   }));
   sheet3['!cols'] = colWidths;
@@ -571,13 +1124,18 @@ export const exportToPDF = async (elementId: string, filename: string) => {
   }
 };
 
+// Chart types that get an extra slide with their numbers
+const TABLE_SLIDE_TYPES: ChartConfig['type'][] = ['pareto', 'waterfall', 'histogram', 'heatmap'];
+
 /**
  * Exports to PPTX
  */
 export const exportToPPTX = async (
   analysis: AnalysisResult, 
   filename: string,
-  language: Language
+  language: Language,
+  data: ExcelDataRow[] = [],
+  columnTypes?: ColumnTypeOverrides
 ) => {
   const t = translations[language];
   const pptx = new PptxGenJS();
@@ -619,6 +1177,17 @@ export const exportToPPTX = async (
         console.error(`Failed to capture chart ${i}`, err);
         slide.addText("Image Capture Failed", { x: 4, y: 3, color: 'FF0000' });
       }
+
+      // Cumulative shares, running totals and bin ranges are hard to read off the picture
+      if (data.length > 0 && TABLE_SLIDE_TYPES.includes(chartConfig.type)) {
+        const table = buildChartTable(data, chartConfig, language, columnTypes);
+        const tableSlide = pptx.addSlide();
+        tableSlide.addText(chartConfig.title, { x: 0.5, y: 0.4, w: '90%', fontSize: 20, bold: true, color: '333333' });
+        tableSlide.addTable(
+          [table.headers.map(text => ({ text, options: { bold: true, fill: { color: 'EFF6FF' } } })), ...table.rows.map(row => row.map(cell => ({ text: typeof cell === 'number' ? formatNumber(cell) : String(cell) })))],
+          { x: 0.5, y: 1.0, w: 9, fontSize: 10, border: { type: 'solid', pt: 0.5, color: 'DDDDDD' }, autoPage: true }
+        );
+      }
     }
   }
 